@@ -0,0 +1,13 @@
+-- ===========================================
+-- NEARM Social Nitter X Bot - Feed sources
+-- ===========================================
+-- Records which configured source each tweet was relayed from
+
+ALTER TABLE tweets_processed
+ADD COLUMN IF NOT EXISTS source TEXT;
+
+-- Create index for per-source lookups
+CREATE INDEX IF NOT EXISTS idx_tweets_processed_source
+ON tweets_processed(source, published_at DESC);
+
+COMMENT ON COLUMN tweets_processed.source IS 'Id of the configured feed source the tweet came from (NULL for rows created before multi-source support)';
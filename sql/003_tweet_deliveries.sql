@@ -0,0 +1,37 @@
+-- ===========================================
+-- NEARM Social Nitter X Bot - Delivery ledger
+-- ===========================================
+-- Tracks delivery of each tweet to each destination so a failed
+-- channel can be retried without re-sending to the others
+
+CREATE TABLE IF NOT EXISTS tweet_deliveries (
+    tweet_id TEXT NOT NULL REFERENCES tweets_processed(id) ON DELETE CASCADE,
+    destination TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivered', 'failed', 'skipped')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    platform_message_id TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (tweet_id, destination)
+);
+
+-- Create index for finding undelivered tweets
+CREATE INDEX IF NOT EXISTS idx_tweet_deliveries_pending
+ON tweet_deliveries(status)
+WHERE status = 'pending';
+
+-- Tweets processed before the ledger existed are settled: never retry them
+INSERT INTO tweet_deliveries (tweet_id, destination, status)
+SELECT t.id, d.destination, 'skipped'
+FROM tweets_processed t
+CROSS JOIN (VALUES ('telegram'), ('discord')) AS d(destination)
+ON CONFLICT (tweet_id, destination) DO NOTHING;
+
+COMMENT ON TABLE tweet_deliveries IS 'Per-destination delivery state of each processed tweet';
+COMMENT ON COLUMN tweet_deliveries.destination IS 'Destination name (telegram, discord)';
+COMMENT ON COLUMN tweet_deliveries.status IS 'pending = not delivered yet, delivered = sent, failed = gave up after max attempts, skipped = never sent on purpose';
+COMMENT ON COLUMN tweet_deliveries.attempts IS 'Number of send attempts made so far';
+COMMENT ON COLUMN tweet_deliveries.last_error IS 'Error message of the most recent failed attempt';
+COMMENT ON COLUMN tweet_deliveries.platform_message_id IS 'Message id returned by the destination platform';
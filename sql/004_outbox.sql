@@ -0,0 +1,43 @@
+-- ===========================================
+-- NEARM Social Nitter X Bot - Outbox
+-- ===========================================
+-- Durable queue of messages waiting to be delivered. A worker drains it
+-- with per-destination exponential backoff; messages that keep failing
+-- are moved to outbox_dead_letters and can be requeued by hand.
+
+CREATE TABLE IF NOT EXISTS outbox (
+    id BIGSERIAL PRIMARY KEY,
+    tweet_id TEXT NOT NULL REFERENCES tweets_processed(id) ON DELETE CASCADE,
+    destination TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (tweet_id, destination)
+);
+
+-- Create index for picking due messages
+CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt_at
+ON outbox(next_attempt_at, id);
+
+CREATE TABLE IF NOT EXISTS outbox_dead_letters (
+    id BIGINT PRIMARY KEY,
+    tweet_id TEXT NOT NULL REFERENCES tweets_processed(id) ON DELETE CASCADE,
+    destination TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL,
+    last_error TEXT,
+    created_at TIMESTAMP,
+    dead_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create index for listing dead letters
+CREATE INDEX IF NOT EXISTS idx_outbox_dead_letters_dead_at
+ON outbox_dead_letters(dead_at DESC);
+
+COMMENT ON TABLE outbox IS 'Messages waiting to be delivered to a destination';
+COMMENT ON COLUMN outbox.payload IS 'Serialized tweet as it was fetched from the feed';
+COMMENT ON COLUMN outbox.attempts IS 'Number of failed send attempts so far';
+COMMENT ON COLUMN outbox.next_attempt_at IS 'Earliest time the worker may try again (exponential backoff)';
+COMMENT ON TABLE outbox_dead_letters IS 'Messages that failed too many times; requeue with npm run outbox:requeue';
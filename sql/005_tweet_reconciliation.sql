@@ -0,0 +1,18 @@
+-- ===========================================
+-- NEARM Social Nitter X Bot - Edit/delete reconciliation
+-- ===========================================
+-- Keeps the relayed content of each tweet so a reconciliation job can
+-- detect edits and deletions and correct the relayed messages
+
+ALTER TABLE tweets_processed
+ADD COLUMN IF NOT EXISTS payload JSONB;
+
+ALTER TABLE tweets_processed
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+
+ALTER TABLE tweets_processed
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+COMMENT ON COLUMN tweets_processed.payload IS 'Tweet as last relayed (text, link, media); NULL for rows created before reconciliation support';
+COMMENT ON COLUMN tweets_processed.edited_at IS 'When an edit was propagated to the relayed messages';
+COMMENT ON COLUMN tweets_processed.deleted_at IS 'When the tweet was found deleted and its relayed messages were removed';
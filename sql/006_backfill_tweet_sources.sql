@@ -0,0 +1,14 @@
+-- ===========================================
+-- NEARM Social Nitter X Bot - Backfill tweet sources
+-- ===========================================
+-- Rows created before multi-source support have no source, so they were
+-- missing from per-source lookups. They all came from the single account
+-- the bot relayed then: the migrator passes the first configured source id
+-- as nearm.default_source. Without it (e.g. run by hand) nothing changes.
+
+UPDATE tweets_processed
+SET source = current_setting('nearm.default_source', true)
+WHERE source IS NULL
+  AND COALESCE(current_setting('nearm.default_source', true), '') <> '';
+
+COMMENT ON COLUMN tweets_processed.source IS 'Id of the configured feed source the tweet came from (rows created before multi-source support are assigned the first configured source)';
@@ -0,0 +1,110 @@
+import type { AppConfig } from './config/index.js';
+import type { Logger } from './utils/logger.js';
+import { RSSParser, FeedParser } from './utils/index.js';
+import { DatabaseService, TweetRepository, DeliveryRepository, OutboxRepository } from './db/index.js';
+import { NitterClient, FeedClient } from './clients/index.js';
+import { NitterSourceReader, FeedSourceReader } from './sources/index.js';
+import { SocialRelayService, type BackfillOptions } from './services/index.js';
+import { createPublishers } from './publishers.js';
+
+/**
+ * Options of a backfill run
+ */
+export interface BackfillRunOptions extends BackfillOptions {
+  /** Print what would be queued without writing anything */
+  dryRun: boolean;
+}
+
+/**
+ * Queue historical tweets for the running bot to deliver, oldest first and paced
+ * @returns Whether every source could be fetched
+ */
+export async function runBackfill(config: AppConfig, logger: Logger, options: BackfillRunOptions): Promise<boolean> {
+  const unknown = options.sources.filter((id) => !config.nitter.sources.some((source) => source.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown source(s): ${unknown.join(', ')}`);
+  }
+
+  return withRelayService(config, logger, options.dryRun, async (relayService) => {
+    const result = await relayService.backfill(options);
+
+    for (const { tweet, destinations, at } of result.queued) {
+      console.log(`${at.toISOString()}  [${tweet.source.id}] ${tweet.id} (${tweet.publishedAt.toISOString()}) -> ${destinations.join(', ')}`);
+    }
+
+    const verb = options.dryRun ? 'would be queued' : 'queued';
+    const last = result.queued.at(-1);
+    console.log(`\n${result.queued.length} tweet(s) ${verb}${last ? `, due until ${last.at.toISOString()}` : ''}, ${result.alreadyDelivered} already delivered or queued`);
+    if (result.queued.length > 0 && !options.dryRun) {
+      console.log('The running bot delivers them from the outbox.');
+    }
+    for (const error of result.errors) {
+      console.log(`Error: ${error}`);
+    }
+
+    return result.errors.length === 0;
+  });
+}
+
+/**
+ * Queue one processed tweet for delivery again, to every publisher or only the given ones
+ * @returns Whether the tweet was queued
+ */
+export async function runReplay(config: AppConfig, logger: Logger, tweetId: string, destinations: string[]): Promise<boolean> {
+  return withRelayService(config, logger, false, async (relayService) => {
+    const names = relayService.getPublishers().map(({ name }) => name);
+    const unknown = destinations.filter((destination) => !names.includes(destination));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown destination(s): ${unknown.join(', ')} (configured: ${names.join(', ')})`);
+    }
+
+    const queued = await relayService.resend(tweetId, destinations.length > 0 ? destinations : undefined);
+    if (!queued) {
+      console.log(`Tweet ${tweetId} is unknown or has no stored content.`);
+      return false;
+    }
+
+    console.log(`Tweet ${tweetId} queued for ${destinations.length > 0 ? destinations.join(', ') : names.join(', ')}. The running bot delivers it from the outbox.`);
+    return true;
+  });
+}
+
+/**
+ * Run a command against a relay service built like the bot's (Discord never logged in)
+ */
+async function withRelayService<T>(
+  config: AppConfig,
+  logger: Logger,
+  dryRun: boolean,
+  command: (relayService: SocialRelayService) => Promise<T>
+): Promise<T> {
+  const db = new DatabaseService(config.database, logger);
+  const nitterClient = new NitterClient(config.nitter, config.retry, logger);
+  const { discordClient, publishers } = createPublishers(config, logger);
+
+  try {
+    const relayService = new SocialRelayService(
+      nitterClient,
+      publishers,
+      discordClient,
+      db,
+      new TweetRepository(db, logger),
+      new DeliveryRepository(db, logger),
+      new OutboxRepository(db, logger),
+      {
+        nitter: new NitterSourceReader(nitterClient, new RSSParser(logger)),
+        feed: new FeedSourceReader(new FeedClient(config.retry, logger), new FeedParser(logger)),
+      },
+      config.nitter.sources,
+      logger,
+      dryRun ? () => undefined : undefined
+    );
+
+    return await command(relayService);
+  } finally {
+    for (const publisher of publishers) {
+      await publisher.close().catch(() => undefined);
+    }
+    await db.close();
+  }
+}
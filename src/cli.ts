@@ -0,0 +1,113 @@
+import { parseArgs } from 'node:util';
+import { loadConfig } from './config/index.js';
+import { createLogger } from './utils/logger.js';
+import { runPreview } from './preview.js';
+import { runBackfill, runReplay } from './backfill.js';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  preview [--source <id>]... [--json]
+      Fetch every source and print the Telegram HTML and Discord payload of each
+      new tweet. Nothing is sent and nothing is written to the database.
+
+  backfill (--since <date> | --last <count>) [--source <id>]... [--interval <seconds>] [--dry-run]
+      Queue the tweets of each source published since a date (or its newest tweets),
+      oldest first, one every --interval seconds (default 60). Tweets already
+      delivered are left out. The running bot delivers them from the outbox.
+
+  replay <tweetId> [--to <destination>]...
+      Queue a processed tweet for delivery again, to every destination or only the
+      given ones (telegram, discord, ...).`;
+
+const DEFAULT_BACKFILL_INTERVAL_SECONDS = 60;
+
+/**
+ * Operator commands that run against the configured sources and database
+ * Logs go to stderr so the command output can be piped
+ */
+async function main(): Promise<void> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      source: { type: 'string', multiple: true },
+      json: { type: 'boolean', default: false },
+      since: { type: 'string' },
+      last: { type: 'string' },
+      interval: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      to: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = loadConfig();
+  const logger = createLogger(config.log, 2);
+
+  switch (command) {
+    case 'preview': {
+      const ok = await runPreview(config, logger, { sources: values.source ?? [], json: values.json });
+      process.exitCode = ok ? 0 : 1;
+      return;
+    }
+    case 'backfill': {
+      const since = values.since !== undefined ? new Date(values.since) : undefined;
+      const last = values.last !== undefined ? Number(values.last) : undefined;
+      const interval = Number(values.interval ?? DEFAULT_BACKFILL_INTERVAL_SECONDS);
+
+      if ((since === undefined) === (last === undefined)) {
+        return usageError('backfill needs either --since or --last');
+      }
+      if (since && isNaN(since.getTime())) {
+        return usageError(`Invalid --since date: ${values.since}`);
+      }
+      if (last !== undefined && (!Number.isInteger(last) || last < 1)) {
+        return usageError(`Invalid --last count: ${values.last}`);
+      }
+      if (!Number.isFinite(interval) || interval < 0) {
+        return usageError(`Invalid --interval: ${values.interval}`);
+      }
+
+      const ok = await runBackfill(config, logger, {
+        sources: values.source ?? [],
+        since,
+        last,
+        intervalMs: interval * 1000,
+        dryRun: values['dry-run'],
+      });
+      process.exitCode = ok ? 0 : 1;
+      return;
+    }
+    case 'replay': {
+      const tweetId = positionals[1];
+      if (!tweetId) {
+        return usageError('replay needs a tweet id');
+      }
+
+      const ok = await runReplay(config, logger, tweetId, values.to ?? []);
+      process.exitCode = ok ? 0 : 1;
+      return;
+    }
+    default:
+      usageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Report invalid arguments with the usage
+ */
+function usageError(message: string): void {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error('Command failed:', err);
+  process.exit(1);
+});
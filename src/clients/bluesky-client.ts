@@ -0,0 +1,521 @@
+import { createHash } from 'node:crypto';
+import axios, { type AxiosInstance } from 'axios';
+import type { BlueskyConfig, TemplateConfig } from '../config/types.js';
+import { TemplateRenderer } from '../utils/template.js';
+import type { Logger } from 'pino';
+import type { ParsedTweet, SendResult, TweetMedia } from './telegram-client.js';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
+
+/**
+ * Authenticated session with the PDS
+ */
+interface Session {
+  did: string;
+  accessJwt: string;
+  refreshJwt: string;
+}
+
+/**
+ * Strong reference to a record
+ */
+interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+/**
+ * Stored record with its reference
+ */
+interface StoredPost extends StrongRef {
+  value: PostRecord;
+}
+
+/**
+ * Uploaded blob, referenced from embeds
+ */
+type BlobRef = Record<string, unknown>;
+
+/**
+ * Rich text annotation over a UTF-8 byte range
+ */
+interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: Record<string, string>[];
+}
+
+/**
+ * app.bsky.feed.post record
+ */
+interface PostRecord {
+  $type: 'app.bsky.feed.post';
+  text: string;
+  createdAt: string;
+  facets?: Facet[];
+  embed?: Record<string, unknown>;
+  reply?: { root: StrongRef; parent: StrongRef };
+}
+
+const POST_COLLECTION = 'app.bsky.feed.post';
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+const MENTION_PATTERN = /(^|[^\w])@(\w{1,15})\b/g;
+const HASHTAG_PATTERN = /(^|\s)#([^\s#]+)/gu;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+const TID_ALPHABET = '234567abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * BlueskyClient - Posts tweets to a Bluesky account as app.bsky.feed.post records
+ * Logs in with an app password, annotates links, X mentions and hashtags with facets,
+ * uploads images as blobs and splits long texts into a reply chain
+ */
+export class BlueskyClient implements Publisher {
+  private static readonly GRAPHEME_LIMIT = 300;
+  private static readonly IMAGE_LIMIT = 4;
+  private static readonly BLOB_SIZE_LIMIT = 1_000_000;
+
+  readonly name = 'bluesky';
+  readonly capabilities: PublisherCapabilities = { media: true, edit: false, delete: true, embeds: true };
+
+  private client: AxiosInstance;
+  private config: BlueskyConfig;
+  private renderer: TemplateRenderer;
+  private segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  private encoder = new TextEncoder();
+  private logger: Logger;
+  private session: Session | null = null;
+
+  constructor(config: BlueskyConfig, templateConfig: TemplateConfig, logger: Logger) {
+    this.config = config;
+    this.renderer = new TemplateRenderer(templateConfig);
+    this.logger = logger.child({ component: 'BlueskyClient' });
+
+    this.client = axios.create({
+      baseURL: config.service,
+      timeout: 30000,
+      headers: { 'User-Agent': 'NEARM-Social-Bot/1.0' },
+    });
+
+    this.logger.info({ service: config.service, identifier: config.identifier }, 'Bluesky client initialized');
+  }
+
+  /**
+   * Post a tweet, split into a reply chain when it exceeds 300 graphemes
+   * Images go on the first post; a link card to the tweet goes on the last one
+   * (a post holds one embed, so a single post with images links the tweet in its text)
+   * Every post gets a record key derived from the delivery, so a retry finds the posts
+   * that already went out and continues the chain after them instead of starting over
+   * @param replyToMessageId Stored post URIs of the relayed tweet this one continues (threads)
+   * @param deliveryId Outbox message id (falls back to the tweet id)
+   * @returns The URIs of every post, comma-separated
+   */
+  async send(tweet: ParsedTweet, replyToMessageId?: string, deliveryId: string = tweet.id): Promise<SendResult> {
+    try {
+      const text = this.render(tweet);
+      const images = await this.uploadImages(tweet.media);
+
+      let chunks = this.split(text);
+      const withCard = images.length === 0 || chunks.length > 1;
+      if (!withCard) {
+        chunks = this.split(`${text}\n\n${tweet.link}`);
+      }
+
+      let reply = replyToMessageId ? await this.getReplyRefs(replyToMessageId) : undefined;
+      const uris: string[] = [];
+
+      for (const [index, chunk] of chunks.entries()) {
+        const record: PostRecord = {
+          $type: POST_COLLECTION,
+          text: chunk,
+          createdAt: new Date().toISOString(),
+          facets: this.buildFacets(chunk, tweet.source.type === 'nitter'),
+          reply,
+        };
+
+        if (index === 0 && images.length > 0) {
+          record.embed = { $type: 'app.bsky.embed.images', images };
+        } else if (index === chunks.length - 1 && withCard) {
+          record.embed = this.buildCard(tweet);
+        }
+
+        const rkey = this.recordKey(tweet, deliveryId, index);
+        const existing = await this.getPost(undefined, rkey);
+        let created: StrongRef;
+
+        if (existing?.value.text === chunk) {
+          this.logger.debug({ tweetId: tweet.id, uri: existing.uri }, 'Post already created by an earlier attempt');
+          created = { uri: existing.uri, cid: existing.cid };
+        } else {
+          // A different post under the same key is a collision; let the PDS pick a key instead
+          created = await this.createPost(record, existing ? undefined : rkey);
+        }
+
+        uris.push(created.uri);
+        reply = { root: reply?.root ?? created, parent: created };
+      }
+
+      this.logger.info({ tweetId: tweet.id, uris, imageCount: images.length, replyToMessageId }, 'Tweet posted to Bluesky');
+      return { success: true, messageId: uris.join(',') };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id }, 'Failed to post tweet to Bluesky');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Bluesky posts cannot be edited
+   */
+  async edit(messageId: string): Promise<SendResult> {
+    return { success: false, messageId, error: 'Bluesky posts cannot be edited' };
+  }
+
+  /**
+   * Bluesky posts cannot be edited, so they cannot be struck through
+   */
+  async strike(messageId: string): Promise<SendResult> {
+    return { success: false, messageId, error: 'Bluesky posts cannot be edited' };
+  }
+
+  /**
+   * Delete every post of a relayed tweet
+   */
+  async delete(messageId: string): Promise<SendResult> {
+    try {
+      for (const uri of messageId.split(',')) {
+        const { repo, rkey } = this.parseUri(uri);
+        await this.call((session) => this.client.post('/xrpc/com.atproto.repo.deleteRecord', {
+          repo: repo ?? session.did,
+          collection: POST_COLLECTION,
+          rkey,
+        }, this.auth(session)));
+      }
+
+      this.logger.info({ uris: messageId }, 'Bluesky post deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, uris: messageId }, 'Failed to delete Bluesky post');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Check that the app password logs in
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.call((session) => this.client.get('/xrpc/com.atproto.server.getSession', this.auth(session)));
+      this.logger.debug('Bluesky health check passed');
+      return true;
+    } catch (err) {
+      this.logger.error({ err }, 'Bluesky health check failed');
+      return false;
+    }
+  }
+
+  /**
+   * Forget the session (tokens expire on their own)
+   */
+  async close(): Promise<void> {
+    this.session = null;
+    this.logger.debug('Bluesky client closed');
+  }
+
+  /**
+   * Create a post record, under the given record key when there is one
+   */
+  private async createPost(record: PostRecord, rkey?: string): Promise<StrongRef> {
+    const response = await this.call((session) => this.client.post<StrongRef>('/xrpc/com.atproto.repo.createRecord', {
+      repo: session.did,
+      collection: POST_COLLECTION,
+      rkey,
+      record,
+    }, this.auth(session)));
+    return { uri: response.data.uri, cid: response.data.cid };
+  }
+
+  /**
+   * Fetch a post record (null when it does not exist)
+   * @param repo DID of the repo, the account's own when undefined
+   */
+  private async getPost(repo: string | undefined, rkey: string): Promise<StoredPost | null> {
+    try {
+      const response = await this.call((session) => this.client.get<StoredPost>(
+        '/xrpc/com.atproto.repo.getRecord',
+        { params: { repo: repo ?? session.did, collection: POST_COLLECTION, rkey }, ...this.auth(session) }
+      ));
+      return { uri: response.data.uri, cid: response.data.cid, value: response.data.value };
+    } catch (err) {
+      if (axios.isAxiosError(err) && (err.response?.status === 404 || (err.response?.data as { error?: string } | undefined)?.error === 'RecordNotFound')) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Deterministic record key (a TID) for one post of a delivery
+   * The timestamp is the tweet's publication time plus up to a millisecond picked by the delivery,
+   * and the clock id is the position in the reply chain
+   */
+  private recordKey(tweet: ParsedTweet, deliveryId: string, index: number): string {
+    const offset = createHash('sha256').update(`${tweet.id}:${deliveryId}`).digest().readUInt32BE(0) % 1000;
+    const published = Number.isNaN(tweet.publishedAt.getTime()) ? 0 : tweet.publishedAt.getTime();
+    const micros = BigInt(published) * 1000n + BigInt(offset);
+    const value = (micros << 10n) | BigInt(index % 1024);
+
+    let key = '';
+    for (let shift = 60n; shift >= 0n; shift -= 5n) {
+      key += TID_ALPHABET[Number((value >> shift) & 31n)];
+    }
+    return key;
+  }
+
+  /**
+   * Build the reply references for a continuation of an earlier relayed tweet
+   * The parent is its last post; the root is inherited from the parent's own reply
+   */
+  private async getReplyRefs(messageId: string): Promise<{ root: StrongRef; parent: StrongRef } | undefined> {
+    const uri = messageId.split(',').pop()!;
+    const { repo, rkey } = this.parseUri(uri);
+
+    try {
+      const post = await this.getPost(repo, rkey);
+      if (!post) {
+        this.logger.warn({ uri }, 'Bluesky thread parent no longer exists, posting without reply');
+        return undefined;
+      }
+      const parent = { uri: post.uri, cid: post.cid };
+      return { root: post.value.reply?.root ?? parent, parent };
+    } catch (err) {
+      this.logger.warn({ err, uri }, 'Failed to look up Bluesky thread parent, posting without reply');
+      return undefined;
+    }
+  }
+
+  /**
+   * Upload images with their alt text; videos and gifs are represented by their thumbnail
+   * Media that cannot be fetched, is too large or fails to upload is left out
+   */
+  private async uploadImages(media: TweetMedia[]): Promise<{ alt: string; image: BlobRef }[]> {
+    const images: { alt: string; image: BlobRef }[] = [];
+
+    for (const item of media) {
+      if (images.length >= BlueskyClient.IMAGE_LIMIT) {
+        break;
+      }
+
+      const url = item.type === 'photo' ? item.url : item.thumbnailUrl;
+      if (!url) {
+        continue;
+      }
+
+      try {
+        const download = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 30000 });
+        if (download.data.byteLength > BlueskyClient.BLOB_SIZE_LIMIT) {
+          this.logger.warn({ url, bytes: download.data.byteLength }, 'Image too large for Bluesky, posting without it');
+          continue;
+        }
+
+        const contentType = String(download.headers['content-type'] ?? 'image/jpeg');
+        const response = await this.call((session) => this.client.post<{ blob: BlobRef }>(
+          '/xrpc/com.atproto.repo.uploadBlob',
+          Buffer.from(download.data),
+          { headers: { ...this.auth(session).headers, 'Content-Type': contentType } }
+        ));
+        images.push({ alt: item.altText ?? '', image: response.data.blob });
+      } catch (err) {
+        this.logger.warn({ err, url }, 'Failed to upload image to Bluesky, posting without it');
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Link card pointing to the tweet
+   */
+  private buildCard(tweet: ParsedTweet): Record<string, unknown> {
+    const author = tweet.author;
+    const title = author
+      ? author.username ? `${author.name} (@${author.username}) on 𝕏` : author.name
+      : tweet.source.label;
+
+    return {
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: tweet.link,
+        title,
+        description: this.truncateGraphemes(tweet.text, BlueskyClient.GRAPHEME_LIMIT),
+      },
+    };
+  }
+
+  /**
+   * Facets for the links, mentions and hashtags of a text
+   * @param linkMentions Link @mentions to the X profile (they are X usernames, not Bluesky handles)
+   */
+  private buildFacets(text: string, linkMentions: boolean): Facet[] | undefined {
+    const facets: Facet[] = [];
+    const links: [number, number][] = [];
+
+    for (const match of text.matchAll(URL_PATTERN)) {
+      const uri = match[0].replace(TRAILING_PUNCTUATION, '');
+      links.push([match.index, match.index + uri.length]);
+      facets.push(this.facet(text, match.index, uri, { $type: 'app.bsky.richtext.facet#link', uri }));
+    }
+
+    for (const match of linkMentions ? text.matchAll(MENTION_PATTERN) : []) {
+      const username = match[2]!;
+      const start = match.index + match[1]!.length;
+      // Facets must not overlap, so an @ inside a URL stays part of the link
+      if (links.some(([from, to]) => start >= from && start < to)) {
+        continue;
+      }
+      facets.push(this.facet(text, start, `@${username}`, { $type: 'app.bsky.richtext.facet#link', uri: `https://x.com/${username}` }));
+    }
+
+    for (const match of text.matchAll(HASHTAG_PATTERN)) {
+      const tag = match[2]!.replace(TRAILING_PUNCTUATION, '');
+      // Tags are at most 64 characters and cannot be only digits
+      if (tag.length === 0 || tag.length > 64 || /^\d+$/.test(tag)) {
+        continue;
+      }
+      const start = match.index + match[1]!.length;
+      facets.push(this.facet(text, start, `#${tag}`, { $type: 'app.bsky.richtext.facet#tag', tag }));
+    }
+
+    return facets.length > 0 ? facets : undefined;
+  }
+
+  /**
+   * Build a facet for a substring, converting its position to UTF-8 byte offsets
+   */
+  private facet(text: string, start: number, value: string, feature: Record<string, string>): Facet {
+    const byteStart = this.encoder.encode(text.slice(0, start)).length;
+    return {
+      index: { byteStart, byteEnd: byteStart + this.encoder.encode(value).length },
+      features: [feature],
+    };
+  }
+
+  /**
+   * Split a text into chunks of at most 300 graphemes, preferring line and word breaks
+   */
+  private split(text: string): string[] {
+    const chunks: string[] = [];
+    let rest = [...this.segmenter.segment(text)].map((segment) => segment.segment);
+
+    while (rest.length > BlueskyClient.GRAPHEME_LIMIT) {
+      const window = rest.slice(0, BlueskyClient.GRAPHEME_LIMIT);
+      const newline = window.lastIndexOf('\n');
+      const space = window.lastIndexOf(' ');
+      const breakAt = newline > BlueskyClient.GRAPHEME_LIMIT / 2 ? newline : space > 0 ? space : BlueskyClient.GRAPHEME_LIMIT;
+
+      chunks.push(rest.slice(0, breakAt).join('').trimEnd());
+      rest = rest.slice(breakAt);
+      while (rest[0] === ' ' || rest[0] === '\n') {
+        rest = rest.slice(1);
+      }
+    }
+
+    chunks.push(rest.join(''));
+    return chunks.filter((chunk) => chunk.trim() !== '');
+  }
+
+  /**
+   * Truncate a text to a number of graphemes
+   */
+  private truncateGraphemes(text: string, limit: number): string {
+    const graphemes = [...this.segmenter.segment(text)].map((segment) => segment.segment);
+    return graphemes.length > limit ? `${graphemes.slice(0, limit - 1).join('')}…` : text;
+  }
+
+  /**
+   * Render the source's template or the default one (plain text, nothing to escape)
+   */
+  private render(tweet: ParsedTweet): string {
+    const template = tweet.source.templates?.bluesky ?? this.config.template;
+    return this.renderer.render(template, tweet, (value) => value);
+  }
+
+  /**
+   * Split an at:// URI into its repo and record key
+   */
+  private parseUri(uri: string): { repo?: string; rkey: string } {
+    const match = uri.match(/^at:\/\/([^/]+)\/[^/]+\/([^/]+)$/);
+    return match ? { repo: match[1], rkey: match[2]! } : { rkey: uri };
+  }
+
+  /**
+   * Run an authenticated request, logging in first and once more when the session expired
+   */
+  private async call<T>(request: (session: Session) => Promise<T>): Promise<T> {
+    const session = this.session ?? await this.login();
+    try {
+      return await request(session);
+    } catch (err) {
+      if (!this.isExpiredSession(err)) {
+        throw err;
+      }
+      this.logger.info('Bluesky session expired, refreshing');
+      return request(await this.refresh(session));
+    }
+  }
+
+  /**
+   * Create a session with the app password
+   */
+  private async login(): Promise<Session> {
+    const response = await this.client.post<Session>('/xrpc/com.atproto.server.createSession', {
+      identifier: this.config.identifier,
+      password: this.config.appPassword,
+    });
+    this.session = { did: response.data.did, accessJwt: response.data.accessJwt, refreshJwt: response.data.refreshJwt };
+    this.logger.info({ did: this.session.did }, 'Logged in to Bluesky');
+    return this.session;
+  }
+
+  /**
+   * Refresh the session, logging in again when the refresh token is no longer valid
+   */
+  private async refresh(session: Session): Promise<Session> {
+    try {
+      const response = await this.client.post<Session>('/xrpc/com.atproto.server.refreshSession', undefined, {
+        headers: { Authorization: `Bearer ${session.refreshJwt}` },
+      });
+      this.session = { did: response.data.did, accessJwt: response.data.accessJwt, refreshJwt: response.data.refreshJwt };
+      return this.session;
+    } catch {
+      this.session = null;
+      return this.login();
+    }
+  }
+
+  /**
+   * Authorization header for a session
+   */
+  private auth(session: Session): { headers: { Authorization: string } } {
+    return { headers: { Authorization: `Bearer ${session.accessJwt}` } };
+  }
+
+  /**
+   * Check whether a request failed because the access token expired
+   */
+  private isExpiredSession(err: unknown): boolean {
+    if (!axios.isAxiosError(err) || !err.response) {
+      return false;
+    }
+    const data = err.response.data as { error?: string } | undefined;
+    return err.response.status === 401 || data?.error === 'ExpiredToken' || data?.error === 'InvalidToken';
+  }
+
+  /**
+   * Describe an XRPC error, including its error name and message when there are some
+   */
+  private describeError(err: unknown): string {
+    if (axios.isAxiosError(err) && err.response) {
+      const data = err.response.data as { error?: string; message?: string } | undefined;
+      const detail = [data?.error, data?.message].filter(Boolean).join(': ');
+      return `HTTP ${err.response.status}${detail ? ` ${detail}` : ''}`;
+    }
+    return err instanceof Error ? err.message : 'Unknown error';
+  }
+}
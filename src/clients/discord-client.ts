@@ -3,24 +3,45 @@ import {
   GatewayIntentBits, 
   TextChannel, 
   ChannelType,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  escapeMarkdown,
+  type APIEmbed,
+  type AttachmentPayload,
+  type MessageCreateOptions,
+  type ChatInputCommandInteraction,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
 } from 'discord.js';
-import type { DiscordConfig } from '../config/types.js';
+import type { DiscordConfig, TemplateConfig } from '../config/types.js';
+import { TemplateRenderer, type TemplatePlaceholder } from '../utils/template.js';
 import type { Logger } from 'pino';
-import type { ParsedTweet } from './telegram-client.js';
+import type { ParsedTweet, SendResult, TweetMedia } from './telegram-client.js';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
 
 /**
  * DiscordClient - Sends messages to Discord channel using bot
  * Manages bot lifecycle including login and graceful shutdown
  */
-export class DiscordClient {
+export class DiscordClient implements Publisher {
+  private static readonly ATTACHMENT_LIMIT = 10;
+  private static readonly EMBED_DESCRIPTION_LIMIT = 4096;
+  // Embeds sharing a URL are rendered as one post with an image gallery
+  private static readonly EMBED_GALLERY_LIMIT = 4;
+
+  readonly name = 'discord';
+  readonly capabilities: PublisherCapabilities = { media: true, edit: true, delete: true, embeds: true };
+
   private client: Client;
   private config: DiscordConfig;
+  private renderer: TemplateRenderer;
   private logger: Logger;
   private isReady: boolean = false;
   private channel: TextChannel | null = null;
+  private embedFallbackWarned: boolean = false;
 
-  constructor(config: DiscordConfig, logger: Logger) {
+  constructor(config: DiscordConfig, templateConfig: TemplateConfig, logger: Logger) {
     this.config = config;
+    this.renderer = new TemplateRenderer(templateConfig);
     this.logger = logger.child({ component: 'DiscordClient' });
 
     this.client = new Client({
@@ -139,44 +160,272 @@ export class DiscordClient {
 
   /**
    * Send a tweet to Discord channel
+   * @param replyToMessageId Message id of the relayed tweet this one continues (threads)
    */
-  async sendTweet(tweet: ParsedTweet): Promise<boolean> {
+  async send(tweet: ParsedTweet, replyToMessageId?: string): Promise<SendResult> {
     if (!this.isReady) {
       this.logger.warn({ tweetId: tweet.id }, 'Discord not ready, skipping send');
-      return false;
+      return { success: false, error: 'Discord client not ready' };
     }
 
     try {
       const channel = await this.fetchChannel();
-      const message = this.formatMessage(tweet);
+      const useEmbed = this.config.messageFormat === 'embed' && this.canEmbed(channel);
+      const message = useEmbed ? this.buildEmbedMessage(tweet) : this.buildTextMessage(tweet);
 
-      await channel.send(message);
+      if (replyToMessageId) {
+        // Still post the continuation if the earlier message was deleted
+        message.reply = { messageReference: replyToMessageId, failIfNotExists: false };
+      }
 
-      this.logger.info({ tweetId: tweet.id }, 'Tweet sent to Discord');
-      return true;
+      const sent = await channel.send(message);
+
+      this.logger.info({ tweetId: tweet.id, messageId: sent.id, mediaCount: tweet.media.length, replyToMessageId }, 'Tweet sent to Discord');
+      return { success: true, messageId: sent.id };
     } catch (err) {
       this.logger.error({ err, tweetId: tweet.id }, 'Failed to send tweet to Discord');
-      return false;
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Replace the content of a relayed tweet after it was edited at the source
+   * The message keeps the format (embed or text) it was sent with
+   */
+  async edit(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      const channel = await this.fetchChannel();
+      const message = await channel.messages.fetch(messageId);
+
+      if (message.embeds.length > 0) {
+        await message.edit({ embeds: this.buildEmbedMessage(tweet).embeds ?? [] });
+      } else {
+        await message.edit({ content: this.formatMessage(tweet) });
+      }
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Discord message edited');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to edit Discord message');
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
     }
   }
 
   /**
-   * Format tweet message for Discord
+   * Strike through a relayed tweet that was deleted at the source
+   */
+  async strike(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      const channel = await this.fetchChannel();
+      const message = await channel.messages.fetch(messageId);
+      const notice = '🗑 *This post was deleted on 𝕏*';
+
+      if (message.embeds.length > 0) {
+        const [embed, ...gallery] = this.buildEmbedMessage(tweet).embeds ?? [];
+        const struck = EmbedBuilder.from(embed!)
+          .setDescription(`${this.strikeThrough(this.formatEmbedDescription(tweet))}\n\n${notice}`);
+        await message.edit({ embeds: [struck, ...gallery] });
+      } else {
+        await message.edit({ content: `${this.strikeThrough(this.formatMessage(tweet))}\n\n${notice}` });
+      }
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Discord message struck through');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to strike Discord message');
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Delete a relayed tweet
+   */
+  async delete(messageId: string): Promise<SendResult> {
+    try {
+      const channel = await this.fetchChannel();
+      await channel.messages.delete(messageId);
+
+      this.logger.info({ messageId }, 'Discord message deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, messageId }, 'Failed to delete Discord message');
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Wrap every non-empty line in strikethrough markdown
+   */
+  private strikeThrough(text: string): string {
+    return text
+      .split('\n')
+      .map((line) => (line.trim() === '' ? line : `~~${line}~~`))
+      .join('\n');
+  }
+
+  /**
+   * Render the payload send would post, without sending anything
+   * The configured format is used as is (the Embed Links permission is only known once logged in)
+   */
+  preview(tweet: ParsedTweet): { content?: string; embeds: APIEmbed[]; files: AttachmentPayload[] } {
+    const message = this.config.messageFormat === 'embed' ? this.buildEmbedMessage(tweet) : this.buildTextMessage(tweet);
+    return {
+      content: message.content,
+      embeds: (message.embeds ?? []).map((embed) => ('toJSON' in embed ? embed.toJSON() : embed)),
+      files: (message.files ?? []) as AttachmentPayload[],
+    };
+  }
+
+  /**
+   * Check whether the bot may post embeds in the channel
+   * Without the Embed Links permission Discord silently drops embeds
+   */
+  private canEmbed(channel: TextChannel): boolean {
+    const me = this.client.user;
+    const allowed = me ? channel.permissionsFor(me)?.has(PermissionFlagsBits.EmbedLinks) ?? false : false;
+
+    if (!allowed && !this.embedFallbackWarned) {
+      this.logger.warn({ channelId: channel.id }, 'Bot lacks Embed Links permission, falling back to plain text');
+      this.embedFallbackWarned = true;
+    }
+
+    return allowed;
+  }
+
+  /**
+   * Build a plain markdown message with media as attachments
+   */
+  private buildTextMessage(tweet: ParsedTweet): MessageCreateOptions {
+    return {
+      content: this.formatMessage(tweet),
+      files: this.toAttachments(tweet.media),
+    };
+  }
+
+  /**
+   * Build a rich embed message
+   * Photos are shown inside the embed; videos and gifs are attached since embeds cannot play them
+   */
+  private buildEmbedMessage(tweet: ParsedTweet): MessageCreateOptions {
+    const embed = new EmbedBuilder()
+      .setColor(this.config.embedColor)
+      .setURL(tweet.link)
+      .setDescription(this.truncate(this.formatEmbedDescription(tweet), DiscordClient.EMBED_DESCRIPTION_LIMIT))
+      .setTimestamp(tweet.publishedAt)
+      .setFooter({ text: tweet.source.type === 'feed' ? tweet.source.label : '𝕏' });
+
+    // Thread continuations appear as replies, without repeating the header
+    if (tweet.source.header && !tweet.isThreadContinuation) {
+      embed.setTitle(tweet.source.header);
+    }
+
+    if (tweet.author) {
+      // Feed posts have no X account: link the site instead
+      embed.setAuthor({
+        name: tweet.author.username ? `${tweet.author.name} (@${tweet.author.username})` : tweet.author.name,
+        iconURL: tweet.author.avatarUrl,
+        url: tweet.author.url ?? (tweet.author.username ? `https://x.com/${tweet.author.username}` : undefined),
+      });
+    }
+
+    const [firstMedia, ...otherMedia] = tweet.media;
+    const image = firstMedia?.type === 'photo' ? firstMedia.url : firstMedia?.thumbnailUrl;
+    if (image) {
+      embed.setImage(image);
+    }
+
+    const galleryEmbeds = otherMedia
+      .filter((item) => item.type === 'photo')
+      .slice(0, DiscordClient.EMBED_GALLERY_LIMIT - 1)
+      .map((item) => new EmbedBuilder().setURL(tweet.link).setImage(item.url));
+
+    return {
+      embeds: [embed, ...galleryEmbeds],
+      files: this.toAttachments(tweet.media.filter((item) => item.type !== 'photo')),
+    };
+  }
+
+  /**
+   * Truncate text to a maximum length
+   */
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+  }
+
+  /**
+   * Convert tweet media to Discord attachments (alt text becomes the description)
+   */
+  private toAttachments(media: TweetMedia[]): AttachmentPayload[] {
+    return media.slice(0, DiscordClient.ATTACHMENT_LIMIT).map((item, index) => {
+      const extension = item.url.match(/\.(\w+)(?:\?|$)/)?.[1] ?? (item.type === 'photo' ? 'jpg' : 'mp4');
+      return {
+        attachment: item.url,
+        name: `media-${index + 1}.${extension}`,
+        description: item.altText,
+      };
+    });
+  }
+
+  /**
+   * Format tweet message for Discord using the source's template or the default one
    */
   private formatMessage(tweet: ParsedTweet): string {
-    return [
-      '**Bitcoin Light New Post**',
-      '',
-      tweet.text,
-      '',
-      `𝕏 : ${tweet.link}`,
-    ].join('\n');
+    const template = tweet.source.templates?.discord ?? this.config.template;
+    return this.renderer.render(template, tweet, (value, placeholder) => this.escapeValue(value, placeholder));
+  }
+
+  /**
+   * Format the embed description using the source's template or the default one
+   */
+  private formatEmbedDescription(tweet: ParsedTweet): string {
+    const template = tweet.source.templates?.discordEmbed ?? this.config.embedTemplate;
+    return this.renderer.render(template, tweet, (value, placeholder) => this.escapeValue(value, placeholder));
+  }
+
+  /**
+   * Escape a template value for Discord markdown
+   * URLs are left as-is so Discord keeps auto-linking them
+   */
+  private escapeValue(value: string, placeholder: TemplatePlaceholder): string {
+    if (placeholder === 'link') {
+      return value;
+    }
+    return value
+      .split(/(https?:\/\/\S+)/)
+      .map((part, index) => (index % 2 === 1 ? part : escapeMarkdown(part)))
+      .join('');
+  }
+
+  /**
+   * Register slash commands on the guild of the target channel and route their interactions
+   * Guild commands are available immediately (global ones take up to an hour to propagate)
+   */
+  async registerCommands(
+    commands: RESTPostAPIChatInputApplicationCommandsJSONBody[],
+    handler: (interaction: ChatInputCommandInteraction) => Promise<void>
+  ): Promise<void> {
+    const channel = await this.fetchChannel();
+    await channel.guild.commands.set(commands);
+
+    this.client.on('interactionCreate', (interaction) => {
+      if (!interaction.isChatInputCommand()) {
+        return;
+      }
+      handler(interaction).catch((err) => {
+        this.logger.error({ err, command: interaction.commandName }, 'Slash command handler failed');
+      });
+    });
+
+    this.logger.info({
+      guildId: channel.guild.id,
+      commands: commands.map((command) => command.name),
+    }, 'Slash commands registered');
   }
 
   /**
    * Check if Discord client is healthy
    */
-  healthCheck(): boolean {
+  async healthCheck(): Promise<boolean> {
     return this.isReady && this.client.isReady();
   }
 
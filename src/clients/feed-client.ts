@@ -0,0 +1,159 @@
+import axios, {
+  AxiosError,
+  type AxiosInstance,
+  type AxiosResponseHeaders,
+  type RawAxiosResponseHeaders,
+} from 'axios';
+import type { RetryConfig } from '../config/types.js';
+import type { Logger } from 'pino';
+
+/**
+ * Cache validators of a previously fetched feed
+ * Only sent to the server that issued them
+ */
+export interface FeedValidators {
+  instance: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Fetched feed, or a 304 when the cached validators still match
+ */
+export type FeedFetchResult =
+  | {
+    notModified: false;
+    content: string;
+    /** Server that served the feed (Nitter instance or feed origin) */
+    instance: string;
+    validators: FeedValidators;
+  }
+  | {
+    notModified: true;
+    instance: string;
+  };
+
+/**
+ * Build conditional request headers from cached validators
+ */
+export function toConditionalHeaders(validators: FeedValidators): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Read the cache validators of a response
+ */
+export function readValidators(
+  instance: string,
+  headers: RawAxiosResponseHeaders | AxiosResponseHeaders
+): FeedValidators {
+  const read = (name: string): string | undefined => {
+    const value: unknown = headers[name];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+  return { instance, etag: read('etag'), lastModified: read('last-modified') };
+}
+
+/**
+ * FeedClient - Fetches RSS and Atom feeds from arbitrary URLs
+ * Used for non-Nitter sources (blogs, Medium, GitHub releases)
+ */
+export class FeedClient {
+  private client: AxiosInstance;
+  private retryConfig: RetryConfig;
+  private logger: Logger;
+
+  constructor(retryConfig: RetryConfig, logger: Logger) {
+    this.retryConfig = retryConfig;
+    this.logger = logger.child({ component: 'FeedClient' });
+
+    this.client = axios.create({
+      timeout: 30000,
+      headers: {
+        'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+        'User-Agent': 'NEARM-Social-Bot/1.0',
+      },
+    });
+  }
+
+  /**
+   * Fetch a feed with retry logic
+   * @param cached Validators of the last processed fetch, sent as If-None-Match / If-Modified-Since
+   */
+  async fetch(url: string, cached?: FeedValidators): Promise<FeedFetchResult> {
+    const origin = new URL(url).origin;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        this.logger.debug({ url, attempt }, 'Fetching feed');
+
+        const response = await this.client.get<string>(url, {
+          responseType: 'text',
+          headers: cached?.instance === origin ? toConditionalHeaders(cached) : {},
+          validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+        });
+
+        if (response.status === 304) {
+          this.logger.debug({ url }, 'Feed not modified');
+          return { notModified: true, instance: origin };
+        }
+
+        if (!response.data || response.data.trim().length === 0) {
+          throw new Error('Empty feed response');
+        }
+
+        return {
+          notModified: false,
+          content: response.data,
+          instance: origin,
+          validators: readValidators(origin, response.headers),
+        };
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+
+        const isRetryable = this.isRetryableError(err);
+        const isLastAttempt = attempt === this.retryConfig.maxRetries;
+
+        this.logger.warn({ err: lastError, url, attempt, isRetryable, isLastAttempt }, 'Feed fetch attempt failed');
+
+        if (!isRetryable || isLastAttempt) {
+          break;
+        }
+
+        const delay = this.retryConfig.retryDelayMs * Math.pow(2, attempt - 1);
+        await this.sleep(delay);
+      }
+    }
+
+    throw new Error(`Failed to fetch feed ${url}: ${lastError?.message}`);
+  }
+
+  /**
+   * Determine if an error is retryable (network errors, 5xx, 429)
+   */
+  private isRetryableError(err: unknown): boolean {
+    if (!(err instanceof AxiosError)) {
+      return false;
+    }
+    if (!err.response) {
+      return true;
+    }
+    const status = err.response.status;
+    return (status >= 500 && status < 600) || status === 429;
+  }
+
+  /**
+   * Sleep for specified milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
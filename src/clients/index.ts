@@ -1,3 +1,17 @@
-export { NitterClient, type RSSItem, type RSSFeed } from './nitter-client.js';
-export { TelegramClient, type ParsedTweet } from './telegram-client.js';
+export { NitterClient, type RSSItem, type RSSFeed, type NitterFetchResult } from './nitter-client.js';
+export { FeedClient, type FeedValidators, type FeedFetchResult } from './feed-client.js';
+export { NitterInstancePool, type NitterInstanceStatus, type CircuitState } from './nitter-instance-pool.js';
+export {
+  TelegramClient,
+  type ParsedTweet,
+  type SendResult,
+  type TweetMedia,
+  type TweetAuthor,
+} from './telegram-client.js';
 export { DiscordClient } from './discord-client.js';
+export { MastodonClient } from './mastodon-client.js';
+export { BlueskyClient } from './bluesky-client.js';
+export { MatrixClient } from './matrix-client.js';
+export { SlackClient } from './slack-client.js';
+export { WebhookClient, WEBHOOK_PAYLOAD_VERSION, type WebhookPayload } from './webhook-client.js';
+export type { Publisher, PublisherCapabilities } from './publisher.js';
@@ -0,0 +1,318 @@
+import axios, { type AxiosInstance } from 'axios';
+import type { MastodonConfig, TemplateConfig } from '../config/types.js';
+import { TemplateRenderer } from '../utils/template.js';
+import type { Logger } from 'pino';
+import type { ParsedTweet, SendResult, TweetMedia } from './telegram-client.js';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
+
+/**
+ * Status limits announced by the instance
+ */
+interface StatusLimits {
+  maxCharacters: number;
+  /** Every URL counts as this many characters, whatever its length */
+  charactersPerUrl: number;
+}
+
+/**
+ * Media attachment as returned by the media endpoints
+ */
+interface MediaAttachment {
+  id: string;
+  url: string | null;
+}
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+/**
+ * MastodonClient - Posts tweets as statuses to a Mastodon account
+ * Media is uploaded through the media endpoint with its alt text, thread
+ * continuations become replies and long texts are trimmed to the instance limit
+ */
+export class MastodonClient implements Publisher {
+  private static readonly ATTACHMENT_LIMIT = 4;
+  private static readonly DEFAULT_LIMITS: StatusLimits = { maxCharacters: 500, charactersPerUrl: 23 };
+  private static readonly MEDIA_POLL_ATTEMPTS = 10;
+  private static readonly MEDIA_POLL_INTERVAL_MS = 1000;
+
+  readonly name = 'mastodon';
+  readonly capabilities: PublisherCapabilities = { media: true, edit: true, delete: true, embeds: false };
+
+  private client: AxiosInstance;
+  private config: MastodonConfig;
+  private renderer: TemplateRenderer;
+  private logger: Logger;
+  private limits: StatusLimits | null = null;
+
+  constructor(config: MastodonConfig, templateConfig: TemplateConfig, logger: Logger) {
+    this.config = config;
+    this.renderer = new TemplateRenderer(templateConfig);
+    this.logger = logger.child({ component: 'MastodonClient' });
+
+    this.client = axios.create({
+      baseURL: config.instanceUrl,
+      timeout: 30000,
+      headers: {
+        'Authorization': `Bearer ${config.accessToken}`,
+        'User-Agent': 'NEARM-Social-Bot/1.0',
+      },
+    });
+
+    this.logger.info({ instanceUrl: config.instanceUrl, visibility: config.visibility }, 'Mastodon client initialized');
+  }
+
+  /**
+   * Post a tweet as a status
+   * The delivery id is the idempotency key, so a retry after a lost response does not post twice
+   * while a resend still posts again
+   * @param replyToMessageId Status id of the relayed tweet this one continues (threads)
+   * @param deliveryId Outbox message id (falls back to the tweet id)
+   */
+  async send(tweet: ParsedTweet, replyToMessageId?: string, deliveryId: string = tweet.id): Promise<SendResult> {
+    try {
+      const limits = await this.getLimits();
+      const mediaIds = await this.uploadMedia(tweet.media);
+
+      const response = await this.client.post<{ id: string }>('/api/v1/statuses', {
+        status: this.formatStatus(tweet, limits),
+        media_ids: mediaIds,
+        in_reply_to_id: replyToMessageId,
+        visibility: this.config.visibility,
+      }, {
+        headers: { 'Idempotency-Key': deliveryId },
+      });
+
+      this.logger.info({ tweetId: tweet.id, statusId: response.data.id, mediaCount: mediaIds.length, replyToMessageId }, 'Tweet posted to Mastodon');
+      return { success: true, messageId: response.data.id };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id }, 'Failed to post tweet to Mastodon');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Replace the text of a relayed status after the tweet was edited (Mastodon 3.5+)
+   */
+  async edit(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      const limits = await this.getLimits();
+      await this.updateStatus(messageId, this.formatStatus(tweet, limits));
+
+      this.logger.info({ tweetId: tweet.id, statusId: messageId }, 'Mastodon status edited');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, statusId: messageId }, 'Failed to edit Mastodon status');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Mark a relayed status as deleted at the source
+   * Plain-text statuses have no strikethrough, so a notice replaces the text
+   */
+  async strike(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      await this.updateStatus(messageId, `🗑 This post was deleted on 𝕏\n\n${tweet.link}`);
+
+      this.logger.info({ tweetId: tweet.id, statusId: messageId }, 'Mastodon status marked as deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, statusId: messageId }, 'Failed to mark Mastodon status as deleted');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Delete a relayed status
+   */
+  async delete(messageId: string): Promise<SendResult> {
+    try {
+      await this.client.delete(`/api/v1/statuses/${encodeURIComponent(messageId)}`);
+
+      this.logger.info({ statusId: messageId }, 'Mastodon status deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, statusId: messageId }, 'Failed to delete Mastodon status');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Check that the access token is valid
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.client.get<{ acct: string }>('/api/v1/accounts/verify_credentials');
+      this.logger.debug({ account: response.data.acct }, 'Mastodon health check passed');
+      return true;
+    } catch (err) {
+      this.logger.error({ err }, 'Mastodon health check failed');
+      return false;
+    }
+  }
+
+  /**
+   * Nothing to release: the client only makes HTTP calls
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Mastodon client closed');
+  }
+
+  /**
+   * Replace a status' text, keeping its media
+   */
+  private async updateStatus(statusId: string, status: string): Promise<void> {
+    const path = `/api/v1/statuses/${encodeURIComponent(statusId)}`;
+    // Edits replace the attachments, so the current ones are sent again
+    const current = await this.client.get<{ media_attachments: MediaAttachment[] }>(path);
+    await this.client.put(path, {
+      status,
+      media_ids: current.data.media_attachments.map((attachment) => attachment.id),
+    });
+  }
+
+  /**
+   * Upload tweet media with alt text; videos and gifs are represented by their thumbnail
+   * Media that cannot be fetched or uploaded is left out rather than failing the post
+   */
+  private async uploadMedia(media: TweetMedia[]): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (const item of media) {
+      if (ids.length >= MastodonClient.ATTACHMENT_LIMIT) {
+        break;
+      }
+
+      const url = item.type === 'photo' ? item.url : item.thumbnailUrl;
+      if (!url) {
+        continue;
+      }
+
+      try {
+        ids.push(await this.uploadImage(url, item.altText));
+      } catch (err) {
+        this.logger.warn({ err, url }, 'Failed to upload media to Mastodon, posting without it');
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Download an image and upload it to the media endpoint
+   * Large files are processed asynchronously (202); wait until they are ready to attach
+   */
+  private async uploadImage(url: string, altText?: string): Promise<string> {
+    const image = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 30000 });
+    const contentType = String(image.headers['content-type'] ?? 'image/jpeg');
+
+    const form = new FormData();
+    form.append('file', new Blob([image.data], { type: contentType }), url.split('/').pop()?.split('?')[0] || 'image');
+    if (altText) {
+      form.append('description', altText);
+    }
+
+    const response = await this.client.post<MediaAttachment>('/api/v2/media', form);
+    let attachment = response.data;
+
+    for (let attempt = 0; !attachment.url && attempt < MastodonClient.MEDIA_POLL_ATTEMPTS; attempt++) {
+      await this.sleep(MastodonClient.MEDIA_POLL_INTERVAL_MS);
+      attachment = (await this.client.get<MediaAttachment>(`/api/v1/media/${attachment.id}`)).data;
+    }
+
+    return attachment.id;
+  }
+
+  /**
+   * Render the status and trim it to the instance's character limit
+   * The tweet text is shortened first; the result always links back to the tweet
+   */
+  private formatStatus(tweet: ParsedTweet, limits: StatusLimits): string {
+    const status = this.render(tweet);
+    if (this.countCharacters(status, limits) <= limits.maxCharacters) {
+      return status;
+    }
+
+    const suffix = status.includes(tweet.link) ? '' : `\n\n${tweet.link}`;
+    const text = Array.from(tweet.text);
+    const overflow = this.countCharacters(status + suffix, limits) - limits.maxCharacters;
+    const keep = text.length - overflow - 1;
+
+    if (keep > 0) {
+      const trimmed = this.render({ ...tweet, text: `${text.slice(0, keep).join('').trimEnd()}…` }) + suffix;
+      if (this.countCharacters(trimmed, limits) <= limits.maxCharacters) {
+        return trimmed;
+      }
+    }
+
+    // The template alone does not fit (or the text is mostly URLs): cut everything and link back
+    const link = `…\n\n${tweet.link}`;
+    let chars = Array.from(status);
+    let cut = chars.slice(0, limits.maxCharacters - limits.charactersPerUrl - 3).join('') + link;
+    while (this.countCharacters(cut, limits) > limits.maxCharacters && chars.length > 0) {
+      chars = chars.slice(0, -10);
+      cut = chars.join('') + link;
+    }
+    return cut;
+  }
+
+  /**
+   * Render the source's template or the default one (plain text, nothing to escape)
+   */
+  private render(tweet: ParsedTweet): string {
+    const template = tweet.source.templates?.mastodon ?? this.config.template;
+    return this.renderer.render(template, tweet, (value) => value);
+  }
+
+  /**
+   * Count characters the way Mastodon does: code points, with every URL at a fixed length
+   */
+  private countCharacters(text: string, limits: StatusLimits): number {
+    return Array.from(text.replace(URL_PATTERN, 'x'.repeat(limits.charactersPerUrl))).length;
+  }
+
+  /**
+   * Get the status limits of the instance (defaults when the instance does not announce them)
+   */
+  private async getLimits(): Promise<StatusLimits> {
+    if (this.limits) {
+      return this.limits;
+    }
+
+    try {
+      const response = await this.client.get<{
+        configuration?: { statuses?: { max_characters?: number; characters_reserved_per_url?: number } };
+      }>('/api/v2/instance');
+      const statuses = response.data.configuration?.statuses;
+
+      this.limits = {
+        maxCharacters: statuses?.max_characters ?? MastodonClient.DEFAULT_LIMITS.maxCharacters,
+        charactersPerUrl: statuses?.characters_reserved_per_url ?? MastodonClient.DEFAULT_LIMITS.charactersPerUrl,
+      };
+      this.logger.info(this.limits, 'Mastodon status limits loaded');
+      return this.limits;
+    } catch (err) {
+      // Not cached: the next send asks again
+      this.logger.warn({ err }, 'Failed to read Mastodon instance limits, using defaults');
+      return MastodonClient.DEFAULT_LIMITS;
+    }
+  }
+
+  /**
+   * Describe an API error, including Mastodon's error message when there is one
+   */
+  private describeError(err: unknown): string {
+    if (axios.isAxiosError(err) && err.response) {
+      const data = err.response.data as { error?: string } | undefined;
+      return `HTTP ${err.response.status}${data?.error ? `: ${data.error}` : ''}`;
+    }
+    return err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  /**
+   * Sleep for specified milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
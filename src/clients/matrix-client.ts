@@ -0,0 +1,370 @@
+import { createHash } from 'node:crypto';
+import axios, { type AxiosInstance } from 'axios';
+import type { MatrixConfig, TemplateConfig } from '../config/types.js';
+import { TemplateRenderer } from '../utils/template.js';
+import type { Logger } from 'pino';
+import type { ParsedTweet, SendResult, TweetMedia } from './telegram-client.js';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
+
+/**
+ * Relation of an event to an earlier one (threads, edits)
+ */
+interface Relation {
+  rel_type: 'm.thread' | 'm.replace';
+  event_id: string;
+  /** Set on thread events so clients without thread support show them as replies */
+  is_falling_back?: boolean;
+  'm.in_reply_to'?: { event_id: string };
+}
+
+/**
+ * Image uploaded to the content repository
+ */
+interface UploadedImage {
+  contentUri: string;
+  body: string;
+  mimetype: string;
+  size: number;
+}
+
+/**
+ * MatrixClient - Posts tweets as m.room.message events to a Matrix room
+ * Messages carry a plain body and an HTML formatted_body, images are uploaded to
+ * the content repository and sent as m.image events right after the text, and
+ * thread continuations are m.thread relations
+ */
+export class MatrixClient implements Publisher {
+  private static readonly IMAGE_LIMIT = 4;
+
+  readonly name = 'matrix';
+  readonly capabilities: PublisherCapabilities = { media: true, edit: true, delete: true, embeds: false };
+
+  private client: AxiosInstance;
+  private config: MatrixConfig;
+  private renderer: TemplateRenderer;
+  private logger: Logger;
+  private roomId: string | null = null;
+
+  constructor(config: MatrixConfig, templateConfig: TemplateConfig, logger: Logger) {
+    this.config = config;
+    this.renderer = new TemplateRenderer(templateConfig);
+    this.logger = logger.child({ component: 'MatrixClient' });
+
+    this.client = axios.create({
+      baseURL: config.homeserverUrl,
+      timeout: 30000,
+      headers: {
+        'Authorization': `Bearer ${config.accessToken}`,
+        'User-Agent': 'NEARM-Social-Bot/1.0',
+      },
+    });
+
+    this.logger.info({ homeserverUrl: config.homeserverUrl, room: config.roomId }, 'Matrix client initialized');
+  }
+
+  /**
+   * Send a tweet as a text message followed by its images
+   * Transaction ids are derived from the delivery id, so a retry after a lost response does not post twice
+   * while a resend still posts again
+   * @param replyToMessageId Stored event ids of the relayed tweet this one continues (threads)
+   * @param deliveryId Outbox message id (falls back to the tweet id)
+   * @returns The event ids, comma-separated (the text event comes first)
+   */
+  async send(tweet: ParsedTweet, replyToMessageId?: string, deliveryId: string = tweet.id): Promise<SendResult> {
+    try {
+      const roomId = await this.getRoomId();
+      const images = await this.uploadImages(tweet.media);
+      const thread = replyToMessageId ? await this.getThreadRoot(roomId, replyToMessageId) : undefined;
+      const eventIds: string[] = [];
+
+      // Each event of the thread falls back to a reply to the latest one
+      let latest = replyToMessageId?.split(',').at(-1);
+      const relation = (): Relation | undefined => thread && latest
+        ? { rel_type: 'm.thread', event_id: thread, is_falling_back: true, 'm.in_reply_to': { event_id: latest } }
+        : undefined;
+
+      latest = await this.sendEvent(roomId, this.transactionId(`${tweet.id}:${deliveryId}`, 0), {
+        ...this.formatContent(this.render(tweet)),
+        'm.relates_to': relation(),
+      });
+      eventIds.push(latest);
+
+      for (const [index, image] of images.entries()) {
+        latest = await this.sendEvent(roomId, this.transactionId(`${tweet.id}:${deliveryId}`, index + 1), {
+          msgtype: 'm.image',
+          body: image.body,
+          url: image.contentUri,
+          info: { mimetype: image.mimetype, size: image.size },
+          'm.mentions': {},
+          'm.relates_to': relation(),
+        });
+        eventIds.push(latest);
+      }
+
+      this.logger.info({ tweetId: tweet.id, eventIds, imageCount: images.length, replyToMessageId }, 'Tweet sent to Matrix');
+      return { success: true, messageId: eventIds.join(',') };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id }, 'Failed to send tweet to Matrix');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Replace the text of a relayed tweet after it was edited at the source
+   */
+  async edit(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      await this.replaceText(messageId, this.render(tweet));
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Matrix message edited');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to edit Matrix message');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Strike through a relayed tweet that was deleted at the source
+   */
+  async strike(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      await this.replaceText(messageId, `<del>${this.render(tweet)}</del>\n\n🗑 <i>This post was deleted on 𝕏</i>`);
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Matrix message struck through');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to strike Matrix message');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Redact every event of a relayed tweet
+   */
+  async delete(messageId: string): Promise<SendResult> {
+    try {
+      const roomId = await this.getRoomId();
+      for (const eventId of messageId.split(',')) {
+        await this.client.put(
+          `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/redact/${encodeURIComponent(eventId)}/${this.transactionId(eventId, 'redact')}`,
+          { reason: 'Deleted at the source' }
+        );
+      }
+
+      this.logger.info({ messageId }, 'Matrix message deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, messageId }, 'Failed to delete Matrix message');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Check that the access token is valid and the bot has joined the room
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const whoami = await this.client.get<{ user_id: string }>('/_matrix/client/v3/account/whoami');
+      const roomId = await this.getRoomId();
+      const joined = await this.client.get<{ joined_rooms: string[] }>('/_matrix/client/v3/joined_rooms');
+
+      if (!joined.data.joined_rooms.includes(roomId)) {
+        this.logger.error({ userId: whoami.data.user_id, roomId }, 'Matrix health check failed: bot has not joined the room');
+        return false;
+      }
+
+      this.logger.debug({ userId: whoami.data.user_id, roomId }, 'Matrix health check passed');
+      return true;
+    } catch (err) {
+      this.logger.error({ err }, 'Matrix health check failed');
+      return false;
+    }
+  }
+
+  /**
+   * Nothing to release: the client only makes HTTP calls
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Matrix client closed');
+  }
+
+  /**
+   * Send a room message event
+   */
+  private async sendEvent(roomId: string, transactionId: string, content: Record<string, unknown>): Promise<string> {
+    const response = await this.client.put<{ event_id: string }>(
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.message/${transactionId}`,
+      content
+    );
+    return response.data.event_id;
+  }
+
+  /**
+   * Replace the text event of a relayed tweet (m.replace relation)
+   * @param html Rendered message (HTML with newlines)
+   */
+  private async replaceText(messageId: string, html: string): Promise<void> {
+    const roomId = await this.getRoomId();
+    const [eventId] = messageId.split(',');
+    const content = this.formatContent(html);
+
+    await this.sendEvent(roomId, this.transactionId(eventId!, `edit:${html}`), {
+      // Fallback for clients that do not support edits
+      ...content,
+      body: `* ${content.body}`,
+      formatted_body: `* ${content.formatted_body}`,
+      'm.new_content': content,
+      'm.relates_to': { rel_type: 'm.replace', event_id: eventId! } satisfies Relation,
+    });
+  }
+
+  /**
+   * Find the thread root of a relayed tweet: its thread's root when it is itself in a thread,
+   * otherwise its text event
+   */
+  private async getThreadRoot(roomId: string, messageId: string): Promise<string | undefined> {
+    const [eventId] = messageId.split(',');
+
+    try {
+      const response = await this.client.get<{ content: { 'm.relates_to'?: Relation } }>(
+        `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/event/${encodeURIComponent(eventId!)}`
+      );
+      const relation = response.data.content['m.relates_to'];
+      return relation?.rel_type === 'm.thread' ? relation.event_id : eventId;
+    } catch (err) {
+      this.logger.warn({ err, eventId }, 'Failed to look up Matrix thread root, posting outside the thread');
+      return undefined;
+    }
+  }
+
+  /**
+   * Upload images to the content repository; videos and gifs are represented by their thumbnail
+   * Media that cannot be fetched or uploaded is left out rather than failing the message
+   */
+  private async uploadImages(media: TweetMedia[]): Promise<UploadedImage[]> {
+    const images: UploadedImage[] = [];
+
+    for (const item of media) {
+      if (images.length >= MatrixClient.IMAGE_LIMIT) {
+        break;
+      }
+
+      const url = item.type === 'photo' ? item.url : item.thumbnailUrl;
+      if (!url) {
+        continue;
+      }
+
+      try {
+        const download = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 30000 });
+        const mimetype = String(download.headers['content-type'] ?? 'image/jpeg');
+        const filename = url.split('/').pop()?.split('?')[0] || 'image';
+
+        const response = await this.client.post<{ content_uri: string }>(
+          '/_matrix/media/v3/upload',
+          Buffer.from(download.data),
+          { params: { filename }, headers: { 'Content-Type': mimetype } }
+        );
+        images.push({
+          contentUri: response.data.content_uri,
+          body: item.altText || filename,
+          mimetype,
+          size: download.data.byteLength,
+        });
+      } catch (err) {
+        this.logger.warn({ err, url }, 'Failed to upload image to Matrix, sending without it');
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Build an m.text message from rendered HTML: newlines become <br> in formatted_body,
+   * and body is the same message as plain text
+   * Mentions are never pinged (empty m.mentions)
+   */
+  private formatContent(html: string): { msgtype: string; body: string; format: string; formatted_body: string; 'm.mentions': object } {
+    return {
+      msgtype: 'm.text',
+      body: this.toPlainText(html),
+      format: 'org.matrix.custom.html',
+      formatted_body: html.replace(/\n/g, '<br>'),
+      'm.mentions': {},
+    };
+  }
+
+  /**
+   * Render the source's template or the default one
+   */
+  private render(tweet: ParsedTweet): string {
+    const template = tweet.source.templates?.matrix ?? this.config.template;
+    return this.renderer.render(template, tweet, (value) => this.escapeHtml(value));
+  }
+
+  /**
+   * Escape HTML special characters
+   * Quotes are escaped too so values are safe inside attributes (e.g. <a href="{link}">)
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Turn rendered HTML into the plain body: quotes get a "> " prefix, tags are dropped and entities decoded
+   */
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<blockquote>/gi, '> ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Resolve the configured room (ids are used as is, aliases are looked up once)
+   */
+  private async getRoomId(): Promise<string> {
+    if (this.roomId) {
+      return this.roomId;
+    }
+
+    if (this.config.roomId.startsWith('!')) {
+      this.roomId = this.config.roomId;
+    } else {
+      const response = await this.client.get<{ room_id: string }>(
+        `/_matrix/client/v3/directory/room/${encodeURIComponent(this.config.roomId)}`
+      );
+      this.roomId = response.data.room_id;
+      this.logger.info({ alias: this.config.roomId, roomId: this.roomId }, 'Matrix room alias resolved');
+    }
+    return this.roomId;
+  }
+
+  /**
+   * Deterministic transaction id, so the homeserver drops a retried request it already handled
+   */
+  private transactionId(key: string, part: string | number): string {
+    return createHash('sha256').update(`${key}:${part}`).digest('hex').substring(0, 32);
+  }
+
+  /**
+   * Describe an API error, including the Matrix error code and message when there are some
+   */
+  private describeError(err: unknown): string {
+    if (axios.isAxiosError(err) && err.response) {
+      const data = err.response.data as { errcode?: string; error?: string } | undefined;
+      const detail = [data?.errcode, data?.error].filter(Boolean).join(': ');
+      return `HTTP ${err.response.status}${detail ? ` ${detail}` : ''}`;
+    }
+    return err instanceof Error ? err.message : 'Unknown error';
+  }
+}
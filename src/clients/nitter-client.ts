@@ -1,6 +1,9 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import type { NitterConfig, RetryConfig } from '../config/types.js';
 import type { Logger } from 'pino';
+import { nitterFetchDuration } from '../utils/metrics.js';
+import { NitterInstancePool, type NitterInstanceStatus } from './nitter-instance-pool.js';
+import { toConditionalHeaders, readValidators, type FeedFetchResult, type FeedValidators } from './feed-client.js';
 
 /**
  * Raw RSS item from Nitter feed
@@ -11,6 +14,7 @@ export interface RSSItem {
   pubDate: string;
   description?: string;
   guid?: string;
+  creator?: string;
 }
 
 /**
@@ -21,104 +25,210 @@ export interface RSSFeed {
   title?: string;
   description?: string;
   lastBuildDate?: string;
+  imageUrl?: string;
 }
 
 /**
- * NitterClient - Fetches RSS feed from self-hosted Nitter instance
+ * Feed fetched from Nitter, or a 304 when the cached validators still match
+ */
+export type NitterFetchResult = FeedFetchResult;
+
+/**
+ * NitterClient - Fetches RSS feeds from a pool of Nitter instances
+ * Requests go to the healthiest instance and fail over to the next one;
+ * instances that keep failing are taken out of rotation for a while
  */
 export class NitterClient {
-  private client: AxiosInstance;
-  private config: NitterConfig;
+  private clients: Map<string, AxiosInstance>;
+  private pool: NitterInstancePool;
   private retryConfig: RetryConfig;
   private logger: Logger;
 
   constructor(config: NitterConfig, retryConfig: RetryConfig, logger: Logger) {
-    this.config = config;
     this.retryConfig = retryConfig;
     this.logger = logger.child({ component: 'NitterClient' });
+    this.pool = new NitterInstancePool(config.instances, config.failureThreshold, config.cooldownMs, logger);
 
-    this.client = axios.create({
-      baseURL: config.baseUrl,
+    this.clients = new Map(config.instances.map((instance) => [instance, axios.create({
+      baseURL: instance,
       timeout: 30000,
       headers: {
         'Accept': 'application/rss+xml, application/xml, text/xml',
         'User-Agent': 'NEARM-Social-Bot/1.0',
       },
-    });
+    })]));
   }
 
   /**
-   * Fetch RSS feed with retry logic
+   * Fetch a user's RSS feed, failing over between instances
+   * Every round tries each available instance once; rounds are retried with exponential backoff
+   * @param cached Validators of the last processed fetch, sent as If-None-Match / If-Modified-Since
    */
-  async fetchRSS(): Promise<string> {
-    const url = `/${this.config.username}/rss`;
-    let lastError: Error | null = null;
+  async fetchRSS(username: string, cached?: FeedValidators): Promise<NitterFetchResult> {
+    const url = `/${username}/rss`;
+    const lastErrors = new Map<string, string>();
 
     for (let attempt = 1; attempt <= this.retryConfig.maxRetries; attempt++) {
-      try {
-        this.logger.debug({ url, attempt }, 'Fetching RSS feed');
-        
-        const response = await this.client.get<string>(url, {
-          responseType: 'text',
-        });
+      let isRetryable = false;
 
-        if (!response.data || response.data.trim().length === 0) {
-          throw new Error('Empty RSS feed response');
+      for (const instance of this.pool.getCandidates()) {
+        // Another fetch is running the trial request of this half-open instance
+        if (!this.pool.tryAcquire(instance)) {
+          continue;
         }
 
-        this.logger.debug({ 
-          url, 
-          contentLength: response.data.length,
-          attempt 
-        }, 'RSS feed fetched successfully');
+        const endTimer = nitterFetchDuration.startTimer({ instance });
+        try {
+          this.logger.debug({ instance, url, attempt }, 'Fetching RSS feed');
 
-        return response.data;
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-        
-        const isRetryable = this.isRetryableError(err);
-        const isLastAttempt = attempt === this.retryConfig.maxRetries;
-
-        this.logger.warn({
-          err: lastError,
-          url,
-          attempt,
-          isRetryable,
-          isLastAttempt,
-        }, 'RSS fetch attempt failed');
-
-        if (!isRetryable || isLastAttempt) {
-          break;
+          const response = await this.getClient(instance).get<string>(url, {
+            responseType: 'text',
+            headers: cached?.instance === instance ? toConditionalHeaders(cached) : {},
+            validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+          });
+
+          if (response.status === 304) {
+            endTimer({ outcome: 'not_modified' });
+            this.pool.recordSuccess(instance);
+            this.logger.debug({ instance, url, attempt }, 'RSS feed not modified');
+            return { notModified: true, instance };
+          }
+
+          if (!response.data || response.data.trim().length === 0) {
+            throw new Error('Empty RSS feed response');
+          }
+          // Instances without working sessions answer with an HTML error page
+          if (!/<rss\b/i.test(response.data)) {
+            throw new Error('Response is not an RSS feed');
+          }
+          endTimer({ outcome: 'success' });
+          this.pool.recordSuccess(instance);
+
+          this.logger.debug({
+            instance,
+            url,
+            contentLength: response.data.length,
+            attempt,
+          }, 'RSS feed fetched successfully');
+
+          return {
+            notModified: false,
+            content: response.data,
+            instance,
+            validators: readValidators(instance, response.headers),
+          };
+        } catch (err) {
+          endTimer({ outcome: 'error' });
+          const error = err instanceof Error ? err : new Error(String(err));
+
+          // A missing account is missing on every instance and says nothing about the instance
+          if (err instanceof AxiosError && err.response?.status === 404) {
+            this.pool.release(instance);
+            throw new Error(`RSS feed not found for @${username} on ${instance}`);
+          }
+
+          this.pool.recordFailure(instance, error.message);
+          lastErrors.set(instance, error.message);
+          isRetryable = isRetryable || this.isRetryableError(err);
+
+          this.logger.warn({
+            err: error,
+            instance,
+            url,
+            attempt,
+          }, 'RSS fetch attempt failed');
         }
+      }
 
-        // Wait before retry with exponential backoff
-        const delay = this.retryConfig.retryDelayMs * Math.pow(2, attempt - 1);
-        await this.sleep(delay);
+      if (!isRetryable || attempt === this.retryConfig.maxRetries) {
+        break;
       }
+
+      // Wait before the next round with exponential backoff
+      const delay = this.retryConfig.retryDelayMs * Math.pow(2, attempt - 1);
+      await this.sleep(delay);
     }
 
-    throw new Error(
-      `Failed to fetch RSS after ${this.retryConfig.maxRetries} attempts: ${lastError?.message}`
-    );
+    const summary = [...lastErrors].map(([instance, message]) => `${instance}: ${message}`).join('; ');
+    throw new Error(`Failed to fetch RSS for @${username} from every Nitter instance (${summary})`);
   }
 
   /**
-   * Check if Nitter instance is healthy
+   * Check whether a tweet still exists using its Nitter status page
+   * Instances are asked in turn; returns null when none gives a clear answer
    */
-  async healthCheck(): Promise<boolean> {
-    try {
-      const response = await this.client.get('/', { timeout: 5000 });
-      return response.status === 200;
-    } catch {
-      return false;
+  async tweetExists(username: string, tweetId: string): Promise<boolean | null> {
+    const url = `/${username}/status/${tweetId}`;
+
+    for (const instance of this.pool.getCandidates()) {
+      if (!this.pool.tryAcquire(instance)) {
+        continue;
+      }
+
+      try {
+        const response = await this.getClient(instance).get(url, {
+          timeout: 10000,
+          headers: { 'Accept': 'text/html' },
+          validateStatus: () => true,
+        });
+
+        if (response.status === 200) {
+          return true;
+        }
+        if (response.status === 404) {
+          return false;
+        }
+
+        this.logger.debug({ instance, url, status: response.status }, 'Unexpected status while checking tweet');
+      } catch (err) {
+        this.logger.debug({ err, instance, url }, 'Failed to check tweet status page');
+      } finally {
+        // Status page checks never decide a circuit
+        this.pool.release(instance);
+      }
     }
+
+    return null;
+  }
+
+  /**
+   * Check if at least one Nitter instance is reachable
+   */
+  async healthCheck(): Promise<boolean> {
+    const results = await Promise.all([...this.clients.values()].map(async (client) => {
+      try {
+        const response = await client.get('/', { timeout: 5000 });
+        return response.status === 200;
+      } catch {
+        return false;
+      }
+    }));
+    return results.some(Boolean);
+  }
+
+  /**
+   * Health and circuit state of every instance
+   */
+  getInstanceStatus(): NitterInstanceStatus[] {
+    return this.pool.getStatus();
   }
 
   /**
-   * Get the RSS feed URL
+   * Get the RSS feed URL for a user on the preferred instance
    */
-  getRSSUrl(): string {
-    return `${this.config.baseUrl}/${this.config.username}/rss`;
+  getRSSUrl(username: string): string {
+    return `${this.pool.getCandidates()[0]}/${username}/rss`;
+  }
+
+  /**
+   * Get the HTTP client of an instance
+   */
+  private getClient(instance: string): AxiosInstance {
+    const client = this.clients.get(instance);
+    if (!client) {
+      throw new Error(`Unknown Nitter instance: ${instance}`);
+    }
+    return client;
   }
 
   /**
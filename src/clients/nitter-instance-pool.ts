@@ -0,0 +1,213 @@
+import type { Logger } from 'pino';
+import { nitterInstanceUp } from '../utils/metrics.js';
+
+/**
+ * Circuit state of a Nitter instance
+ * - closed: healthy, in rotation
+ * - open: failed repeatedly, out of rotation until the cooldown ends
+ * - half-open: cooldown ended, a single trial request decides whether it comes back
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health snapshot of a Nitter instance
+ */
+export interface NitterInstanceStatus {
+  url: string;
+  state: CircuitState;
+  /** Recent success rate between 0 and 1 (exponentially weighted) */
+  score: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+  openUntil: Date | null;
+}
+
+interface InstanceHealth {
+  url: string;
+  index: number;
+  score: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+  openUntil: Date | null;
+  /** A trial request of the half-open instance is running */
+  trialInFlight: boolean;
+}
+
+/**
+ * Weight of the latest outcome in the health score
+ */
+const SCORE_WEIGHT = 0.3;
+
+/**
+ * NitterInstancePool - Health scoring and circuit breaking for Nitter instances
+ * Instances are offered healthiest first; one that keeps failing is taken out of
+ * rotation for a cooldown, then gets a single trial request
+ */
+export class NitterInstancePool {
+  private instances: InstanceHealth[];
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private logger: Logger;
+
+  constructor(urls: string[], failureThreshold: number, cooldownMs: number, logger: Logger) {
+    this.instances = urls.map((url, index) => ({
+      url,
+      index,
+      score: 1,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastSuccessAt: null,
+      openUntil: null,
+      trialInFlight: false,
+    }));
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.logger = logger.child({ component: 'NitterInstancePool' });
+
+    for (const instance of this.instances) {
+      nitterInstanceUp.set({ instance: instance.url }, 1);
+    }
+  }
+
+  /**
+   * Instances to try, in order: closed ones by score (then configured order), then half-open ones
+   * When every circuit is open, all instances are returned soonest-to-recover first so
+   * the bot keeps trying instead of going silent. Instances with a trial request running
+   * are left out until it resolves.
+   */
+  getCandidates(): string[] {
+    const now = Date.now();
+    const idle = this.instances.filter((instance) => !instance.trialInFlight);
+    const closed = idle.filter((instance) => this.getState(instance, now) === 'closed');
+    const halfOpen = idle.filter((instance) => this.getState(instance, now) === 'half-open');
+
+    closed.sort((a, b) => b.score - a.score || a.index - b.index);
+    halfOpen.sort((a, b) => a.index - b.index);
+
+    const available = [...closed, ...halfOpen];
+    if (available.length > 0) {
+      return available.map((instance) => instance.url);
+    }
+
+    this.logger.warn('All Nitter instances are out of rotation, trying them anyway');
+    return idle
+      .sort((a, b) => (a.openUntil?.getTime() ?? 0) - (b.openUntil?.getTime() ?? 0))
+      .map((instance) => instance.url);
+  }
+
+  /**
+   * Claim an instance right before sending it a request
+   * A half-open instance only takes one trial request at a time: it is claimed until the
+   * outcome is recorded (or released), and returns false while another trial is running
+   */
+  tryAcquire(url: string): boolean {
+    const instance = this.find(url);
+    if (!instance || this.getState(instance, Date.now()) !== 'half-open') {
+      return true;
+    }
+    if (instance.trialInFlight) {
+      return false;
+    }
+
+    instance.trialInFlight = true;
+    this.logger.debug({ instance: url }, 'Sending trial request to half-open Nitter instance');
+    return true;
+  }
+
+  /**
+   * End a request whose outcome says nothing about the instance's health
+   */
+  release(url: string): void {
+    const instance = this.find(url);
+    if (instance) {
+      instance.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(url: string): void {
+    const instance = this.find(url);
+    if (!instance) {
+      return;
+    }
+
+    if (instance.openUntil) {
+      this.logger.info({ instance: url }, 'Nitter instance recovered, back in rotation');
+    }
+
+    instance.score = instance.score * (1 - SCORE_WEIGHT) + SCORE_WEIGHT;
+    instance.consecutiveFailures = 0;
+    instance.lastSuccessAt = new Date();
+    instance.openUntil = null;
+    instance.trialInFlight = false;
+    nitterInstanceUp.set({ instance: url }, 1);
+  }
+
+  /**
+   * Record a failed request, opening the circuit once the threshold is reached
+   * A failed trial request of a half-open instance opens it again right away
+   */
+  recordFailure(url: string, error: string): void {
+    const instance = this.find(url);
+    if (!instance) {
+      return;
+    }
+
+    instance.score = instance.score * (1 - SCORE_WEIGHT);
+    instance.consecutiveFailures++;
+    instance.lastError = error;
+    instance.trialInFlight = false;
+
+    if (instance.consecutiveFailures >= this.failureThreshold) {
+      const wasOpen = instance.openUntil !== null;
+      instance.openUntil = new Date(Date.now() + this.cooldownMs);
+      nitterInstanceUp.set({ instance: url }, 0);
+
+      if (!wasOpen) {
+        this.logger.warn({
+          instance: url,
+          consecutiveFailures: instance.consecutiveFailures,
+          openUntil: instance.openUntil,
+          error,
+        }, 'Nitter instance taken out of rotation');
+      }
+    }
+  }
+
+  /**
+   * Health snapshot of every instance, in configured order
+   */
+  getStatus(): NitterInstanceStatus[] {
+    const now = Date.now();
+    return this.instances.map((instance) => ({
+      url: instance.url,
+      state: this.getState(instance, now),
+      score: Math.round(instance.score * 100) / 100,
+      consecutiveFailures: instance.consecutiveFailures,
+      lastError: instance.lastError,
+      lastSuccessAt: instance.lastSuccessAt,
+      openUntil: instance.openUntil,
+    }));
+  }
+
+  /**
+   * Get the circuit state of an instance
+   */
+  private getState(instance: InstanceHealth, now: number): CircuitState {
+    if (!instance.openUntil) {
+      return 'closed';
+    }
+    return instance.openUntil.getTime() > now ? 'open' : 'half-open';
+  }
+
+  /**
+   * Find an instance by URL
+   */
+  private find(url: string): InstanceHealth | undefined {
+    return this.instances.find((instance) => instance.url === url);
+  }
+}
@@ -0,0 +1,58 @@
+import type { ParsedTweet, SendResult } from './telegram-client.js';
+
+/**
+ * What a destination platform supports
+ */
+export interface PublisherCapabilities {
+  /** Posts images and videos natively (otherwise only the link is relayed) */
+  media: boolean;
+  /** Relayed messages can be edited (edits at the source, strike-through deletions) */
+  edit: boolean;
+  /** Relayed messages can be deleted */
+  delete: boolean;
+  /** Rich embeds are available */
+  embeds: boolean;
+}
+
+/**
+ * Publisher - A destination tweets are relayed to
+ * The name is the destination key stored in the outbox and the delivery ledger,
+ * so it must stay stable across restarts
+ */
+export interface Publisher {
+  readonly name: string;
+  readonly capabilities: PublisherCapabilities;
+
+  /**
+   * Publish a tweet
+   * @param replyToMessageId Stored message id of the relayed tweet this one continues (threads)
+   * @param deliveryId Outbox message id: the same across retries of one delivery, new for every resend,
+   * so platforms with idempotency keys can drop duplicate retries without swallowing a resend
+   */
+  send(tweet: ParsedTweet, replyToMessageId?: string, deliveryId?: string): Promise<SendResult>;
+
+  /**
+   * Replace the content of a relayed message (needs the edit capability)
+   */
+  edit(messageId: string, tweet: ParsedTweet): Promise<SendResult>;
+
+  /**
+   * Mark a relayed message as deleted at the source (needs the edit capability)
+   */
+  strike(messageId: string, tweet: ParsedTweet): Promise<SendResult>;
+
+  /**
+   * Delete a relayed message (needs the delete capability)
+   */
+  delete(messageId: string, tweet: ParsedTweet): Promise<SendResult>;
+
+  /**
+   * Check that the platform is reachable with the configured credentials
+   */
+  healthCheck(): Promise<boolean>;
+
+  /**
+   * Release connections on shutdown
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,385 @@
+import axios, { type AxiosInstance } from 'axios';
+import type { SlackConfig, TemplateConfig } from '../config/types.js';
+import { TemplateRenderer } from '../utils/template.js';
+import type { Logger } from 'pino';
+import type { ParsedTweet, SendResult, TweetMedia } from './telegram-client.js';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
+
+/**
+ * Block Kit block (only the fields this client sets)
+ */
+type Block = Record<string, unknown> & { type: string };
+
+/**
+ * Web API response envelope
+ */
+interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  ts?: string;
+  messages?: { ts: string; thread_ts?: string }[];
+}
+
+/**
+ * Section text: context line, tweet text and quote, rendered with mrkdwn escaping
+ */
+const SECTION_TEMPLATE = '_{context}_\n{text}\n> {quote}';
+
+/**
+ * SlackClient - Posts tweets as Block Kit messages to a Slack channel
+ * Uses chat.postMessage with a bot token (threads, edits and deletions), or an
+ * incoming webhook (posting only). Rate-limited posts report Retry-After to the outbox
+ */
+export class SlackClient implements Publisher {
+  private static readonly HEADER_LIMIT = 150;
+  private static readonly SECTION_LIMIT = 3000;
+  private static readonly IMAGE_LIMIT = 4;
+
+  readonly name = 'slack';
+  readonly capabilities: PublisherCapabilities;
+
+  private client: AxiosInstance;
+  private config: SlackConfig;
+  private renderer: TemplateRenderer;
+  private logger: Logger;
+
+  constructor(config: SlackConfig, templateConfig: TemplateConfig, logger: Logger) {
+    this.config = config;
+    this.renderer = new TemplateRenderer(templateConfig);
+    this.logger = logger.child({ component: 'SlackClient' });
+
+    // Incoming webhooks can only post
+    const bot = this.isBot();
+    this.capabilities = { media: true, edit: bot, delete: bot, embeds: true };
+
+    this.client = axios.create({
+      baseURL: 'https://slack.com/api',
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'User-Agent': 'NEARM-Social-Bot/1.0',
+        ...(bot ? { 'Authorization': `Bearer ${config.botToken}` } : {}),
+      },
+    });
+
+    this.logger.info({ mode: bot ? 'bot' : 'webhook', channelId: config.channelId || undefined }, 'Slack client initialized');
+  }
+
+  /**
+   * Post a tweet as a Block Kit message
+   * Slack rejects the whole message when it cannot fetch an image, so it is posted once more without images
+   * @param replyToMessageId Stored message ts of the relayed tweet this one continues (threads, bot token only)
+   */
+  async send(tweet: ParsedTweet, replyToMessageId?: string): Promise<SendResult> {
+    try {
+      let messageId: string;
+      try {
+        messageId = await this.postMessage(tweet, true, replyToMessageId);
+      } catch (err) {
+        if (!this.isInvalidBlocks(err) || !tweet.media.length) {
+          throw err;
+        }
+        this.logger.warn({ err, tweetId: tweet.id }, 'Slack rejected the image blocks, posting without images');
+        messageId = await this.postMessage(tweet, false, replyToMessageId);
+      }
+
+      this.logger.info({ tweetId: tweet.id, messageId, mediaCount: tweet.media.length, replyToMessageId }, 'Tweet posted to Slack');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id }, 'Failed to post tweet to Slack');
+      return { success: false, error: this.describeError(err), retryAfterMs: this.getRetryAfterMs(err) ?? undefined };
+    }
+  }
+
+  /**
+   * Replace a relayed message after the tweet was edited (bot token only)
+   */
+  async edit(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    if (!this.isBot()) {
+      return { success: false, messageId, error: 'Slack incoming webhooks cannot edit messages' };
+    }
+
+    try {
+      await this.callApi('chat.update', {
+        channel: this.config.channelId,
+        ts: messageId,
+        text: this.fallbackText(tweet),
+        blocks: this.buildBlocks(tweet, true),
+      });
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Slack message edited');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to edit Slack message');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Strike through a relayed message that was deleted at the source (bot token only)
+   */
+  async strike(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    if (!this.isBot()) {
+      return { success: false, messageId, error: 'Slack incoming webhooks cannot edit messages' };
+    }
+
+    try {
+      const text = this.truncate(this.escapeMrkdwn(tweet.text), SlackClient.SECTION_LIMIT - 50);
+      const blocks = [
+        ...this.buildBlocks(tweet, false).filter((block) => block.type === 'header'),
+        this.section(`~${text.replace(/\n+/g, '~\n~')}~\n\n🗑 _This post was deleted on 𝕏_`),
+        this.contextBlock(tweet),
+      ];
+      await this.callApi('chat.update', {
+        channel: this.config.channelId,
+        ts: messageId,
+        text: `🗑 This post was deleted on 𝕏: ${tweet.link}`,
+        blocks,
+      });
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Slack message struck through');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to strike Slack message');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Delete a relayed message (bot token only)
+   */
+  async delete(messageId: string): Promise<SendResult> {
+    if (!this.isBot()) {
+      return { success: false, messageId, error: 'Slack incoming webhooks cannot delete messages' };
+    }
+
+    try {
+      await this.callApi('chat.delete', { channel: this.config.channelId, ts: messageId });
+
+      this.logger.info({ messageId }, 'Slack message deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, messageId }, 'Failed to delete Slack message');
+      return { success: false, error: this.describeError(err) };
+    }
+  }
+
+  /**
+   * Check the bot token (auth.test); incoming webhooks have nothing to probe and are
+   * healthy once configured, failed posts being retried by the outbox
+   */
+  async healthCheck(): Promise<boolean> {
+    if (!this.isBot()) {
+      return true;
+    }
+
+    try {
+      await this.callApi('auth.test', {});
+      this.logger.debug('Slack health check passed');
+      return true;
+    } catch (err) {
+      this.logger.error({ err }, 'Slack health check failed');
+      return false;
+    }
+  }
+
+  /**
+   * Nothing to release: the client only makes HTTP calls
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Slack client closed');
+  }
+
+  /**
+   * Post the message through the bot token or the incoming webhook
+   * @returns The message ts (bot token) or the tweet id (webhooks do not return the message)
+   */
+  private async postMessage(tweet: ParsedTweet, withImages: boolean, replyToMessageId?: string): Promise<string> {
+    const message = {
+      text: this.fallbackText(tweet),
+      blocks: this.buildBlocks(tweet, withImages),
+      unfurl_links: false,
+      unfurl_media: false,
+    };
+
+    if (!this.isBot()) {
+      await this.client.post(this.config.webhookUrl, message);
+      return tweet.id;
+    }
+
+    const response = await this.callApi('chat.postMessage', {
+      ...message,
+      channel: this.config.channelId,
+      thread_ts: replyToMessageId ? await this.getThreadTs(replyToMessageId) : undefined,
+    });
+    return response.ts!;
+  }
+
+  /**
+   * Find the thread a continuation belongs to: the thread of the previous relayed message, or that message itself
+   * Reading replies needs the channels:history scope; without it the message ts is used as is
+   */
+  private async getThreadTs(messageId: string): Promise<string> {
+    try {
+      const response = await this.callApi('conversations.replies', {
+        channel: this.config.channelId,
+        ts: messageId,
+        limit: 1,
+      }, 'GET');
+      return response.messages?.[0]?.thread_ts ?? messageId;
+    } catch (err) {
+      this.logger.warn({ err, messageId }, 'Failed to look up Slack thread, replying to the message itself');
+      return messageId;
+    }
+  }
+
+  /**
+   * Build the Block Kit blocks: header (title), section (text), images, context (date and link)
+   */
+  private buildBlocks(tweet: ParsedTweet, withImages: boolean): Block[] {
+    const blocks: Block[] = [];
+
+    const title = this.renderer.render(this.config.title, tweet, (value) => value);
+    if (title) {
+      blocks.push({
+        type: 'header',
+        text: { type: 'plain_text', text: this.truncate(title, SlackClient.HEADER_LIMIT), emoji: true },
+      });
+    }
+
+    const text = this.renderer.render(SECTION_TEMPLATE, tweet, (value, placeholder) => {
+      const escaped = this.escapeMrkdwn(value);
+      return placeholder === 'text' && tweet.source.type !== 'feed' ? this.linkMentions(escaped) : escaped;
+    });
+    if (text) {
+      blocks.push(this.section(this.truncate(text, SlackClient.SECTION_LIMIT)));
+    }
+
+    if (withImages) {
+      blocks.push(...this.imageBlocks(tweet.media));
+    }
+
+    blocks.push(this.contextBlock(tweet));
+    return blocks;
+  }
+
+  /**
+   * Image blocks for the tweet media; videos and gifs are represented by their thumbnail
+   */
+  private imageBlocks(media: TweetMedia[]): Block[] {
+    return media
+      .map((item) => ({ url: item.type === 'photo' ? item.url : item.thumbnailUrl, altText: item.altText }))
+      .filter((item): item is { url: string; altText: string | undefined } => Boolean(item.url))
+      .slice(0, SlackClient.IMAGE_LIMIT)
+      .map((item) => ({ type: 'image', image_url: item.url, alt_text: item.altText || 'Image' }));
+  }
+
+  /**
+   * Context block with the publication date (shown in the reader's timezone) and the link to the post
+   */
+  private contextBlock(tweet: ParsedTweet): Block {
+    const epoch = Math.floor(tweet.publishedAt.getTime() / 1000);
+    const fallback = this.renderer.render('{date}', tweet, (value) => value);
+    const label = tweet.source.type === 'feed' ? 'Open post' : 'View on 𝕏';
+
+    return {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `<!date^${epoch}^{date_short_pretty} at {time}|${fallback}> · <${tweet.link}|${label}>`,
+      }],
+    };
+  }
+
+  /**
+   * Section block with mrkdwn text
+   */
+  private section(text: string): Block {
+    return { type: 'section', text: { type: 'mrkdwn', text } };
+  }
+
+  /**
+   * Plain text shown in notifications and by clients that cannot render blocks
+   */
+  private fallbackText(tweet: ParsedTweet): string {
+    return this.truncate(`${tweet.source.label}: ${tweet.text}`, SlackClient.HEADER_LIMIT);
+  }
+
+  /**
+   * Escape the characters Slack's mrkdwn treats as control sequences
+   */
+  private escapeMrkdwn(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Link @mentions to the X profile
+   */
+  private linkMentions(text: string): string {
+    return text.replace(/(^|[^\w])@(\w{1,15})\b/g, (_match, before: string, username: string) =>
+      `${before}<https://x.com/${username}|@${username}>`);
+  }
+
+  /**
+   * Call a Web API method; Slack reports failures as { ok: false, error } with HTTP 200
+   * @param httpMethod Read methods take query parameters (JSON bodies are only accepted by write methods)
+   */
+  private async callApi(method: string, args: Record<string, unknown>, httpMethod: 'GET' | 'POST' = 'POST'): Promise<SlackApiResponse> {
+    const response = await this.client.request<SlackApiResponse>(
+      httpMethod === 'GET' ? { method: 'GET', url: method, params: args } : { method: 'POST', url: method, data: args }
+    );
+    if (!response.data.ok) {
+      throw new Error(response.data.error ?? 'unknown_error');
+    }
+    return response.data;
+  }
+
+  /**
+   * Read Retry-After (seconds) from a 429 response; null for any other error
+   */
+  private getRetryAfterMs(err: unknown): number | null {
+    if (!axios.isAxiosError(err) || err.response?.status !== 429) {
+      return null;
+    }
+    const seconds = parseInt(String(err.response.headers['retry-after'] ?? '1'), 10);
+    return (isNaN(seconds) ? 1 : seconds) * 1000;
+  }
+
+  /**
+   * Check whether Slack rejected the blocks (e.g. an image it could not download)
+   */
+  private isInvalidBlocks(err: unknown): boolean {
+    if (axios.isAxiosError(err)) {
+      return err.response?.status === 400 && String(err.response.data).includes('invalid_blocks');
+    }
+    return err instanceof Error && err.message === 'invalid_blocks';
+  }
+
+  /**
+   * Whether the client posts with a bot token (otherwise through the incoming webhook)
+   */
+  private isBot(): boolean {
+    return this.config.botToken !== '';
+  }
+
+  /**
+   * Describe an error, including the body of webhook errors (e.g. "invalid_blocks")
+   */
+  private describeError(err: unknown): string {
+    if (axios.isAxiosError(err) && err.response) {
+      const data = typeof err.response.data === 'string' ? err.response.data : '';
+      return `HTTP ${err.response.status}${data ? `: ${data}` : ''}`;
+    }
+    return err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  /**
+   * Truncate text to a maximum length
+   */
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+  }
+}
@@ -1,28 +1,107 @@
 import { Telegraf } from 'telegraf';
-import type { TelegramConfig } from '../config/types.js';
+import type { TelegramConfig, SourceConfig, TemplateConfig } from '../config/types.js';
+import { TemplateRenderer } from '../utils/template.js';
 import type { Logger } from 'pino';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
+
+/**
+ * Media attached to a tweet
+ */
+export interface TweetMedia {
+  type: 'photo' | 'video' | 'gif';
+  /** Original media URL (pbs.twimg.com / video.twimg.com) */
+  url: string;
+  /** Preview image for videos and gifs */
+  thumbnailUrl?: string;
+  /** Alt text, when Nitter exposes it */
+  altText?: string;
+}
+
+/**
+ * Account that posted a tweet (or the feed a post came from)
+ */
+export interface TweetAuthor {
+  name: string;
+  /** X username; empty for feed posts */
+  username: string;
+  avatarUrl?: string;
+  /** Profile or site URL, when it is not the X profile */
+  url?: string;
+}
+
+/**
+ * Tweet quoted by a relayed tweet
+ */
+export interface QuotedTweet {
+  username: string;
+  /** Quoted text, empty when the Nitter instance only links the quote */
+  text: string;
+  link: string;
+}
 
 /**
  * Parsed tweet for posting
+ * Also the common post type of feed sources, so every formatter renders both
  */
 export interface ParsedTweet {
   id: string;
   text: string;
   link: string;
   publishedAt: Date;
+  source: SourceConfig;
+  media: TweetMedia[];
+  author?: TweetAuthor;
+  /** The tweet continues a thread of the same account (a reply to itself) */
+  isThreadContinuation?: boolean;
+  /** Earlier tweet this continuation replies to, when known */
+  inReplyToId?: string;
+  /** Original author of a retweet */
+  retweetOf?: string;
+  /** Account a reply is addressed to (replies to other accounts only) */
+  replyTo?: string;
+  /** Quoted tweet */
+  quote?: QuotedTweet;
+}
+
+/**
+ * Outcome of sending a tweet to a destination
+ */
+export interface SendResult {
+  success: boolean;
+  /** Platform message id when the send succeeded */
+  messageId?: string;
+  /** Error message when the send failed */
+  error?: string;
+  /** How long the platform asked to wait before the next attempt (rate limits) */
+  retryAfterMs?: number;
 }
 
+/**
+ * Extra send options that make a message a reply
+ */
+type ReplyExtra = { reply_parameters?: { message_id: number; allow_sending_without_reply: boolean } };
+
 /**
  * TelegramClient - Sends messages to Telegram channel
  * Uses Telegraf (no polling, send-only mode)
  */
-export class TelegramClient {
+export class TelegramClient implements Publisher {
+  private static readonly CAPTION_LIMIT = 1024;
+  private static readonly MEDIA_GROUP_LIMIT = 10;
+
+  readonly name = 'telegram';
+  readonly capabilities: PublisherCapabilities = { media: true, edit: true, delete: true, embeds: false };
+
   private bot: Telegraf;
   private channelId: string;
+  private template: string;
+  private renderer: TemplateRenderer;
   private logger: Logger;
 
-  constructor(config: TelegramConfig, logger: Logger) {
+  constructor(config: TelegramConfig, templateConfig: TemplateConfig, logger: Logger) {
     this.channelId = config.channelId;
+    this.template = config.template;
+    this.renderer = new TemplateRenderer(templateConfig);
     this.logger = logger.child({ component: 'TelegramClient' });
 
     // Initialize Telegraf bot (no polling needed for send-only)
@@ -33,48 +112,219 @@ export class TelegramClient {
 
   /**
    * Send a tweet to Telegram channel
+   * @param replyToMessageId Stored message id of the relayed tweet this one continues (threads)
    */
-  async sendTweet(tweet: ParsedTweet): Promise<boolean> {
+  async send(tweet: ParsedTweet, replyToMessageId?: string): Promise<SendResult> {
     const message = this.formatMessage(tweet);
 
     try {
-      await this.bot.telegram.sendMessage(this.channelId, message, {
-        parse_mode: 'HTML',
-        link_preview_options: { is_disabled: false },
-      });
+      const replyTo = replyToMessageId ? this.toReplyParameters(replyToMessageId) : {};
+      const messageIds = tweet.media.length > 0 && this.fitsCaption(message)
+        ? await this.sendWithMedia(tweet.media, message, replyTo)
+        : await this.sendText(message, tweet.media, replyTo);
 
-      this.logger.info({ tweetId: tweet.id }, 'Tweet sent to Telegram');
-      return true;
+      this.logger.info({ tweetId: tweet.id, messageIds, mediaCount: tweet.media.length, replyToMessageId }, 'Tweet sent to Telegram');
+      // The message carrying the text comes first
+      return { success: true, messageId: messageIds.join(',') };
     } catch (err) {
       this.logger.error({ err, tweetId: tweet.id }, 'Failed to send tweet to Telegram');
-      return false;
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
     }
   }
 
   /**
-   * Format tweet message for Telegram
+   * Replace the text of a relayed tweet after it was edited at the source
+   * @param messageId Stored platform message id (comma-separated for albums; the text is on the first)
    */
-  private formatMessage(tweet: ParsedTweet): string {
-    const escapedText = this.escapeHtml(tweet.text);
-    const escapedLink = this.escapeHtml(tweet.link);
+  async edit(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      const [textMessageId] = this.parseMessageIds(messageId);
+      await this.editMessage(textMessageId!, this.formatMessage(tweet));
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Telegram message edited');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to edit Telegram message');
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Strike through a relayed tweet that was deleted at the source
+   */
+  async strike(messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    try {
+      const [textMessageId] = this.parseMessageIds(messageId);
+      const message = `<s>${this.formatMessage(tweet)}</s>\n\n🗑 <i>This post was deleted on 𝕏</i>`;
+      await this.editMessage(textMessageId!, message);
+
+      this.logger.info({ tweetId: tweet.id, messageId }, 'Telegram message struck through');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, messageId }, 'Failed to strike Telegram message');
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Delete every message of a relayed tweet
+   */
+  async delete(messageId: string): Promise<SendResult> {
+    try {
+      await this.bot.telegram.deleteMessages(this.channelId, this.parseMessageIds(messageId));
+
+      this.logger.info({ messageId }, 'Telegram message deleted');
+      return { success: true, messageId };
+    } catch (err) {
+      this.logger.error({ err, messageId }, 'Failed to delete Telegram message');
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Edit a message's text, or its caption when the text was sent as a media caption
+   */
+  private async editMessage(messageId: number, html: string): Promise<void> {
+    try {
+      await this.bot.telegram.editMessageText(this.channelId, messageId, undefined, html, { parse_mode: 'HTML' });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '';
+      if (message.includes('message is not modified')) {
+        return;
+      }
+      if (!message.includes('no text in the message')) {
+        throw err;
+      }
+      await this.bot.telegram.editMessageCaption(this.channelId, messageId, undefined, html, { parse_mode: 'HTML' });
+    }
+  }
+
+  /**
+   * Parse a stored platform message id into Telegram message ids
+   */
+  private parseMessageIds(messageId: string): number[] {
+    const ids = messageId.split(',').map((id) => parseInt(id, 10)).filter((id) => !isNaN(id));
+    if (ids.length === 0) {
+      throw new Error(`Invalid Telegram message id: ${messageId}`);
+    }
+    return ids;
+  }
+
+  /**
+   * Reply parameters pointing at the text-bearing message of a relayed tweet
+   * The message is still sent if the replied-to message was deleted
+   */
+  private toReplyParameters(messageId: string): ReplyExtra {
+    const [textMessageId] = this.parseMessageIds(messageId);
+    return { reply_parameters: { message_id: textMessageId!, allow_sending_without_reply: true } };
+  }
+
+  /**
+   * Send the text as a regular message
+   * Media that did not fit under a caption is sent right after it
+   */
+  private async sendText(message: string, media: TweetMedia[], replyTo: ReplyExtra = {}): Promise<number[]> {
+    const sent = await this.bot.telegram.sendMessage(this.channelId, message, {
+      parse_mode: 'HTML',
+      link_preview_options: { is_disabled: media.length > 0 },
+      ...replyTo,
+    });
+
+    const mediaIds = media.length > 0 ? await this.sendWithMedia(media) : [];
+    return [sent.message_id, ...mediaIds];
+  }
+
+  /**
+   * Send media natively, with the text as caption of the first message
+   * Photos and videos go out as one album (up to 10 items); gifs cannot be part of an album,
+   * so each is sent on its own after it
+   */
+  private async sendWithMedia(media: TweetMedia[], caption?: string, replyTo: ReplyExtra = {}): Promise<number[]> {
+    const extra = caption ? { caption, parse_mode: 'HTML' as const } : {};
+    const visual = media.filter((item) => item.type !== 'gif');
+    const gifs = media.filter((item) => item.type === 'gif');
+    const album = visual.slice(0, TelegramClient.MEDIA_GROUP_LIMIT);
+
+    if (visual.length > album.length) {
+      this.logger.warn({ dropped: visual.length - album.length }, 'Media beyond the album limit not sent to Telegram');
+    }
+
+    const messageIds: number[] = [];
+    // The caption and the reply go on the first message only
+    const firstExtra = () => (messageIds.length === 0 ? { ...extra, ...replyTo } : {});
+
+    if (album.length > 1) {
+      const sent = await this.bot.telegram.sendMediaGroup(this.channelId, album.map((item, index) => ({
+        type: item.type === 'video' ? 'video' as const : 'photo' as const,
+        media: item.url,
+        ...(index === 0 ? extra : {}),
+      })), replyTo);
+      messageIds.push(...sent.map((message) => message.message_id));
+    } else if (album[0]) {
+      messageIds.push(await this.sendSingleMedia(album[0], firstExtra()));
+    }
+
+    for (const gif of gifs) {
+      messageIds.push(await this.sendSingleMedia(gif, firstExtra()));
+    }
 
-    return [
-      '<b>Bitcoin Light New Post</b>',
-      '',
-      escapedText,
-      '',
-      `𝕏 : ${escapedLink}`,
-    ].join('\n');
+    return messageIds;
+  }
+
+  /**
+   * Send one photo, video or gif
+   */
+  private async sendSingleMedia(item: TweetMedia, extra: { caption?: string; parse_mode?: 'HTML' } & ReplyExtra): Promise<number> {
+    switch (item.type) {
+      case 'gif':
+        return (await this.bot.telegram.sendAnimation(this.channelId, item.url, extra)).message_id;
+      case 'video':
+        return (await this.bot.telegram.sendVideo(this.channelId, item.url, extra)).message_id;
+      default:
+        return (await this.bot.telegram.sendPhoto(this.channelId, item.url, extra)).message_id;
+    }
+  }
+
+  /**
+   * Whether the message fits in a media caption
+   * Telegram counts the limit on the visible text, after tags and entities are parsed
+   */
+  private fitsCaption(html: string): boolean {
+    const text = html
+      .replace(/<[^>]+>/g, '')
+      .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+      .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+      .replace(/&(lt|gt|quot|amp);/g, '_');
+    return text.length <= TelegramClient.CAPTION_LIMIT;
+  }
+
+  /**
+   * Render a tweet the way send would post it, without sending anything
+   * @returns The HTML message and whether it goes out as the caption of the media or as a message of its own
+   */
+  preview(tweet: ParsedTweet): { html: string; asCaption: boolean; media: TweetMedia[] } {
+    const html = this.formatMessage(tweet);
+    return { html, asCaption: tweet.media.length > 0 && this.fitsCaption(html), media: tweet.media };
+  }
+
+  /**
+   * Format tweet message for Telegram using the source's template or the default one
+   */
+  private formatMessage(tweet: ParsedTweet): string {
+    const template = tweet.source.templates?.telegram ?? this.template;
+    return this.renderer.render(template, tweet, (value) => this.escapeHtml(value));
   }
 
   /**
    * Escape HTML special characters for Telegram HTML mode
+   * Quotes are escaped too so values are safe inside attributes (e.g. <a href="{link}">)
    */
   private escapeHtml(text: string): string {
     return text
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;');
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
   }
 
   /**
@@ -91,6 +341,13 @@ export class TelegramClient {
     }
   }
 
+  /**
+   * Nothing to release: the client only makes HTTP calls (admin polling has its own bot)
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Telegram client closed');
+  }
+
   /**
    * Get bot info
    */
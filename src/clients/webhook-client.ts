@@ -0,0 +1,205 @@
+import { createHash, createHmac } from 'node:crypto';
+import axios, { type AxiosInstance } from 'axios';
+import type { WebhookEndpointConfig, WebhookEvent, SourceType } from '../config/types.js';
+import type { Logger } from 'pino';
+import type { ParsedTweet, SendResult, TweetAuthor, TweetMedia, QuotedTweet } from './telegram-client.js';
+import type { Publisher, PublisherCapabilities } from './publisher.js';
+
+/**
+ * Version of the webhook payload; bumped on breaking changes
+ */
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+/**
+ * JSON body POSTed to webhook endpoints
+ */
+export interface WebhookPayload {
+  version: number;
+  /** Stable per event and content: retries of the same delivery carry the same id */
+  id: string;
+  event: WebhookEvent;
+  source: {
+    id: string;
+    type: SourceType;
+    label: string;
+    /** X username; empty for feed sources */
+    username: string;
+    url?: string;
+  };
+  post: {
+    id: string;
+    text: string;
+    link: string;
+    publishedAt: string;
+    author?: TweetAuthor;
+    media: TweetMedia[];
+    isThreadContinuation: boolean;
+    inReplyToId?: string;
+    retweetOf?: string;
+    replyTo?: string;
+    quote?: QuotedTweet;
+  };
+}
+
+/**
+ * WebhookClient - POSTs signed JSON events for relayed posts to one endpoint
+ * Each request carries X-Relay-Timestamp and X-Relay-Signature, the hex
+ * HMAC-SHA256 of "<timestamp>.<body>" keyed with the endpoint secret
+ */
+export class WebhookClient implements Publisher {
+  readonly name: string;
+  readonly capabilities: PublisherCapabilities = { media: false, edit: true, delete: true, embeds: false };
+
+  private client: AxiosInstance;
+  private config: WebhookEndpointConfig;
+  private logger: Logger;
+
+  constructor(config: WebhookEndpointConfig, timeoutMs: number, logger: Logger) {
+    this.name = `webhook:${config.name}`;
+    this.config = config;
+    this.logger = logger.child({ component: 'WebhookClient', webhook: config.name });
+
+    this.client = axios.create({
+      timeout: timeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NEARM-Social-Bot/1.0',
+      },
+    });
+
+    this.logger.info({ url: config.url, events: config.events, sources: config.sources }, 'Webhook client initialized');
+  }
+
+  /**
+   * Send a post.created event
+   * The stored message id is the post id, so later events can refer to it
+   */
+  async send(tweet: ParsedTweet): Promise<SendResult> {
+    return this.deliver('post.created', tweet);
+  }
+
+  /**
+   * Send a post.updated event with the edited post
+   */
+  async edit(_messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    return this.deliver('post.updated', tweet);
+  }
+
+  /**
+   * Send a post.deleted event (endpoints decide how to show deletions, so strike and delete are the same)
+   */
+  async strike(_messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    return this.deliver('post.deleted', tweet);
+  }
+
+  /**
+   * Send a post.deleted event
+   */
+  async delete(_messageId: string, tweet: ParsedTweet): Promise<SendResult> {
+    return this.deliver('post.deleted', tweet);
+  }
+
+  /**
+   * Always healthy once configured: webhooks have no status endpoint to probe,
+   * and failed deliveries are retried by the outbox rather than failing readiness
+   */
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Nothing to release: every delivery is a single HTTP request
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Webhook client closed');
+  }
+
+  /**
+   * POST an event unless the endpoint filters it out
+   * Filtered events count as delivered so they are neither retried nor dead-lettered
+   */
+  private async deliver(event: WebhookEvent, tweet: ParsedTweet): Promise<SendResult> {
+    if (!this.accepts(event, tweet)) {
+      this.logger.debug({ tweetId: tweet.id, event }, 'Event filtered out for webhook');
+      return { success: true, messageId: tweet.id };
+    }
+
+    const payload = this.buildPayload(event, tweet);
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const response = await this.client.post(this.config.url, body, {
+        headers: {
+          'X-Relay-Event': event,
+          'X-Relay-Delivery': payload.id,
+          'X-Relay-Timestamp': timestamp,
+          'X-Relay-Signature': `sha256=${this.sign(timestamp, body)}`,
+        },
+        // The body is already serialized and signed; send it byte for byte
+        transformRequest: [(data: string) => data],
+      });
+
+      this.logger.info({ tweetId: tweet.id, event, status: response.status }, 'Webhook delivered');
+      return { success: true, messageId: tweet.id };
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      this.logger.error({ err, tweetId: tweet.id, event, status }, 'Failed to deliver webhook');
+      return { success: false, error: status ? `HTTP ${status}` : err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Check the endpoint's event and source filters
+   */
+  private accepts(event: WebhookEvent, tweet: ParsedTweet): boolean {
+    if (!this.config.events.includes(event)) {
+      return false;
+    }
+    return this.config.sources.length === 0 || this.config.sources.includes(tweet.source.id);
+  }
+
+  /**
+   * Build the versioned event payload
+   */
+  private buildPayload(event: WebhookEvent, tweet: ParsedTweet): WebhookPayload {
+    const id = createHash('sha256')
+      .update(`${this.name}:${event}:${tweet.id}:${tweet.text}`)
+      .digest('hex')
+      .substring(0, 32);
+
+    return {
+      version: WEBHOOK_PAYLOAD_VERSION,
+      id,
+      event,
+      source: {
+        id: tweet.source.id,
+        // Payloads stored before feed sources have no type
+        type: tweet.source.type ?? 'nitter',
+        label: tweet.source.label,
+        username: tweet.source.username,
+        url: tweet.source.url,
+      },
+      post: {
+        id: tweet.id,
+        text: tweet.text,
+        link: tweet.link,
+        publishedAt: tweet.publishedAt.toISOString(),
+        author: tweet.author,
+        media: tweet.media,
+        isThreadContinuation: tweet.isThreadContinuation ?? false,
+        inReplyToId: tweet.inReplyToId,
+        retweetOf: tweet.retweetOf,
+        replyTo: tweet.replyTo,
+        quote: tweet.quote,
+      },
+    };
+  }
+
+  /**
+   * HMAC-SHA256 of "<timestamp>.<body>", hex encoded
+   */
+  private sign(timestamp: string, body: string): string {
+    return createHmac('sha256', this.config.secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
@@ -1,5 +1,50 @@
 import 'dotenv/config';
-import type { AppConfig } from './types.js';
+import type {
+  AppConfig,
+  SourceConfig,
+  SourceTemplates,
+  SourcePolicies,
+  BootstrapPolicy,
+  ContentPolicy,
+  SourceType,
+  DiscordMessageFormat,
+  MastodonVisibility,
+  ReconcileDeleteMode,
+  WebhookEndpointConfig,
+  WebhookEvent,
+} from './types.js';
+import { findUnknownPlaceholders } from '../utils/template.js';
+
+/**
+ * Default message templates
+ */
+const DEFAULT_TELEGRAM_TEMPLATE = '<b>{header}</b>\n\n<i>{context}</i>\n{text}\n<blockquote>{quote}</blockquote>\n\n{site} : {link}';
+const DEFAULT_DISCORD_TEMPLATE = '**{header}**\n\n*{context}*\n{text}\n> {quote}\n\n{site} : {link}';
+const DEFAULT_DISCORD_EMBED_TEMPLATE = '*{context}*\n{text}\n> {quote}';
+const DEFAULT_MASTODON_TEMPLATE = '{header}\n\n{context}\n{text}\n> {quote}\n\n{site} : {link}';
+const DEFAULT_BLUESKY_TEMPLATE = '{header}\n\n{context}\n{text}\n> {quote}';
+const DEFAULT_MATRIX_TEMPLATE = '<b>{header}</b>\n\n<i>{context}</i>\n{text}\n<blockquote>{quote}</blockquote>\n\n{site} : {link}';
+
+const CONTENT_POLICIES: readonly ContentPolicy[] = ['skip', 'relay', 'allowlist'];
+
+const WEBHOOK_EVENTS: readonly WebhookEvent[] = ['post.created', 'post.updated', 'post.deleted'];
+
+/**
+ * HTML tags supported by Telegram's HTML parse mode
+ */
+const TELEGRAM_HTML_TAGS = new Set([
+  'b', 'strong', 'i', 'em', 'u', 'ins', 's', 'strike', 'del',
+  'span', 'tg-spoiler', 'a', 'code', 'pre', 'blockquote', 'tg-emoji',
+]);
+
+/**
+ * HTML tags the Matrix spec recommends clients render in formatted_body
+ */
+const MATRIX_HTML_TAGS = new Set([
+  'font', 'del', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'p', 'a', 'ul', 'ol', 'sup', 'sub',
+  'li', 'b', 'i', 'u', 'strong', 'em', 's', 'strike', 'code', 'hr', 'br', 'div', 'table', 'thead',
+  'tbody', 'tr', 'th', 'td', 'caption', 'pre', 'span', 'img', 'details', 'summary',
+]);
 
 /**
  * Configuration validation error
@@ -56,6 +101,23 @@ function parseBoolEnv(key: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true' || value === '1';
 }
 
+/**
+ * Parse a comma-separated list of integer ids from environment variable
+ */
+function parseIdListEnv(key: string): number[] {
+  const value = optionalEnv(key, '');
+  if (value === '') {
+    return [];
+  }
+  return value.split(',').map((entry) => {
+    const id = Number(entry.trim());
+    if (!Number.isSafeInteger(id)) {
+      throw new ConfigValidationError(`Invalid id in ${key}: ${entry.trim()}`);
+    }
+    return id;
+  });
+}
+
 /**
  * Validate URL format
  */
@@ -68,6 +130,505 @@ function validateUrl(url: string, name: string): string {
   }
 }
 
+/**
+ * Get a message template from environment variable
+ * Literal "\n" sequences become newlines since env values are single-line
+ */
+function templateEnv(key: string, defaultValue: string): string {
+  return optionalEnv(key, defaultValue).replace(/\\n/g, '\n');
+}
+
+/**
+ * Parse one of a fixed set of values from environment variable
+ */
+function parseEnumEnv<T extends string>(key: string, allowed: readonly T[], defaultValue: T): T {
+  const value = optionalEnv(key, defaultValue).toLowerCase();
+  if (!allowed.includes(value as T)) {
+    throw new ConfigValidationError(`Invalid value for ${key}: ${value} (expected one of ${allowed.join(', ')})`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse a hex color (#RRGGBB) from environment variable
+ */
+function parseColorEnv(key: string, defaultValue: string): number {
+  const value = optionalEnv(key, defaultValue);
+  if (!/^#?[0-9a-f]{6}$/i.test(value)) {
+    throw new ConfigValidationError(`Invalid color for ${key}: ${value} (expected #RRGGBB)`);
+  }
+  return parseInt(value.replace('#', ''), 16);
+}
+
+/**
+ * Parse JSON from environment variable
+ */
+function parseJsonEnv(key: string): unknown {
+  const value = process.env[key];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    throw new ConfigValidationError(`Invalid JSON for ${key}`);
+  }
+}
+
+/**
+ * Read an optional string field from a JSON config object
+ */
+function optionalString(entry: Record<string, unknown>, field: string, name: string): string | undefined {
+  const value = entry[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ConfigValidationError(`Invalid ${field} for ${name}: expected a string`);
+  }
+  return value;
+}
+
+/**
+ * Parse the per-source template overrides of a NITTER_SOURCES entry
+ */
+function parseSourceTemplates(value: unknown, name: string): SourceTemplates | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    throw new ConfigValidationError(`Invalid templates for ${name}: expected an object`);
+  }
+
+  const record = value as Record<string, unknown>;
+  const allowed = ['telegram', 'discord', 'discordEmbed', 'mastodon', 'bluesky', 'matrix'];
+  for (const key of Object.keys(record)) {
+    if (!allowed.includes(key)) {
+      throw new ConfigValidationError(`Unknown template destination for ${name}: ${key} (expected one of ${allowed.join(', ')})`);
+    }
+  }
+
+  return {
+    telegram: optionalString(record, 'telegram', `${name}.templates`),
+    discord: optionalString(record, 'discord', `${name}.templates`),
+    discordEmbed: optionalString(record, 'discordEmbed', `${name}.templates`),
+    mastodon: optionalString(record, 'mastodon', `${name}.templates`),
+    bluesky: optionalString(record, 'bluesky', `${name}.templates`),
+    matrix: optionalString(record, 'matrix', `${name}.templates`),
+  };
+}
+
+/**
+ * Parse a bootstrap policy: none, latest[:<count>] or since:<date>
+ */
+function parseBootstrapPolicy(value: string, name: string): BootstrapPolicy {
+  const [mode, argument] = value.trim().split(/:(.*)/, 2);
+  const invalid = new ConfigValidationError(`Invalid ${name}: ${value} (expected none, latest:<count> or since:<date>)`);
+
+  switch (mode?.toLowerCase()) {
+    case 'none':
+      if (argument !== undefined) {
+        throw invalid;
+      }
+      return { mode: 'none' };
+    case 'latest': {
+      const count = argument === undefined ? 1 : Number(argument);
+      if (!Number.isInteger(count) || count < 1) {
+        throw invalid;
+      }
+      return { mode: 'latest', count };
+    }
+    case 'since': {
+      const since = new Date(argument ?? '');
+      if (isNaN(since.getTime())) {
+        throw invalid;
+      }
+      return { mode: 'since', since };
+    }
+    default:
+      throw invalid;
+  }
+}
+
+/**
+ * Normalize a username for allowlist comparison
+ */
+function normalizeUsername(username: string): string {
+  return username.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Load the default retweet/quote/reply policies applied to every source
+ */
+function loadDefaultPolicies(): SourcePolicies {
+  return {
+    retweets: parseEnumEnv('RETWEET_POLICY', CONTENT_POLICIES, 'skip'),
+    quotes: parseEnumEnv('QUOTE_POLICY', CONTENT_POLICIES, 'relay'),
+    replies: parseEnumEnv('REPLY_POLICY', CONTENT_POLICIES, 'skip'),
+    allowlist: optionalEnv('RELAY_ALLOWLIST', '')
+      .split(',')
+      .map(normalizeUsername)
+      .filter((username) => username !== ''),
+  };
+}
+
+/**
+ * Read an optional content policy field from a NITTER_SOURCES entry
+ */
+function optionalPolicy(entry: Record<string, unknown>, field: string, name: string): ContentPolicy | undefined {
+  const value = optionalString(entry, field, name)?.toLowerCase();
+  if (value !== undefined && !CONTENT_POLICIES.includes(value as ContentPolicy)) {
+    throw new ConfigValidationError(`Invalid ${field} for ${name}: ${value} (expected one of ${CONTENT_POLICIES.join(', ')})`);
+  }
+  return value as ContentPolicy | undefined;
+}
+
+/**
+ * Parse the per-source policy overrides of a NITTER_SOURCES entry
+ */
+function parseSourcePolicies(record: Record<string, unknown>, name: string, defaults: SourcePolicies): SourcePolicies {
+  const allowlist = record['allowlist'];
+  if (allowlist !== undefined && allowlist !== null
+    && (!Array.isArray(allowlist) || allowlist.some((entry) => typeof entry !== 'string'))) {
+    throw new ConfigValidationError(`Invalid allowlist for ${name}: expected an array of usernames`);
+  }
+
+  return {
+    retweets: optionalPolicy(record, 'retweets', name) ?? defaults.retweets,
+    quotes: optionalPolicy(record, 'quotes', name) ?? defaults.quotes,
+    replies: optionalPolicy(record, 'replies', name) ?? defaults.replies,
+    allowlist: Array.isArray(allowlist)
+      ? (allowlist as string[]).map(normalizeUsername).filter((username) => username !== '')
+      : defaults.allowlist,
+  };
+}
+
+/**
+ * Reject allowlist policies without anyone on the allowlist
+ */
+function validatePolicies(sources: SourceConfig[]): void {
+  for (const source of sources) {
+    const { retweets, quotes, replies, allowlist } = source.policies;
+    if ([retweets, quotes, replies].includes('allowlist') && allowlist.length === 0) {
+      throw new ConfigValidationError(
+        `Source ${source.id} uses the allowlist policy but its allowlist is empty (set RELAY_ALLOWLIST or "allowlist")`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a message template's placeholders (and HTML tags for HTML destinations)
+ * @param htmlTags Tags the destination supports; omitted for markdown and plain text templates
+ */
+function validateTemplate(template: string, name: string, htmlTags?: ReadonlySet<string>): void {
+  const unknown = findUnknownPlaceholders(template);
+  if (unknown.length > 0) {
+    throw new ConfigValidationError(`Unknown placeholder(s) in ${name}: ${unknown.map((p) => `{${p}}`).join(', ')}`);
+  }
+
+  if (htmlTags) {
+    for (const match of template.matchAll(/<\/?([a-z][\w-]*)/gi)) {
+      const tag = (match[1] ?? '').toLowerCase();
+      if (!htmlTags.has(tag)) {
+        throw new ConfigValidationError(`Unsupported HTML tag in ${name}: <${tag}>`);
+      }
+    }
+  }
+}
+
+/**
+ * Validate all templates and the date formatting options
+ */
+function validateTemplates(config: AppConfig): void {
+  try {
+    new Intl.DateTimeFormat(config.template.locale, { timeZone: config.template.timezone });
+  } catch {
+    throw new ConfigValidationError(
+      `Invalid TEMPLATE_TIMEZONE or TEMPLATE_LOCALE: ${config.template.timezone} / ${config.template.locale}`
+    );
+  }
+
+  validateTemplate(config.telegram.template, 'TELEGRAM_TEMPLATE', TELEGRAM_HTML_TAGS);
+  validateTemplate(config.discord.template, 'DISCORD_TEMPLATE');
+  validateTemplate(config.discord.embedTemplate, 'DISCORD_EMBED_TEMPLATE');
+  validateTemplate(config.mastodon.template, 'MASTODON_TEMPLATE');
+  validateTemplate(config.bluesky.template, 'BLUESKY_TEMPLATE');
+  validateTemplate(config.matrix.template, 'MATRIX_TEMPLATE', MATRIX_HTML_TAGS);
+  validateTemplate(config.slack.title, 'SLACK_TITLE');
+
+  for (const source of config.nitter.sources) {
+    const templates = source.templates ?? {};
+    if (templates.telegram !== undefined) {
+      validateTemplate(templates.telegram, `templates.telegram of source ${source.id}`, TELEGRAM_HTML_TAGS);
+    }
+    if (templates.discord !== undefined) {
+      validateTemplate(templates.discord, `templates.discord of source ${source.id}`);
+    }
+    if (templates.discordEmbed !== undefined) {
+      validateTemplate(templates.discordEmbed, `templates.discordEmbed of source ${source.id}`);
+    }
+    if (templates.mastodon !== undefined) {
+      validateTemplate(templates.mastodon, `templates.mastodon of source ${source.id}`);
+    }
+    if (templates.bluesky !== undefined) {
+      validateTemplate(templates.bluesky, `templates.bluesky of source ${source.id}`);
+    }
+    if (templates.matrix !== undefined) {
+      validateTemplate(templates.matrix, `templates.matrix of source ${source.id}`, MATRIX_HTML_TAGS);
+    }
+  }
+}
+
+/**
+ * Load the Nitter instances from NITTER_BASE_URLS, falling back to a single NITTER_BASE_URL
+ */
+function loadNitterInstances(): string[] {
+  const list = optionalEnv('NITTER_BASE_URLS', '');
+  const key = list !== '' ? 'NITTER_BASE_URLS' : 'NITTER_BASE_URL';
+  const urls = list !== ''
+    ? list.split(',').map((url) => url.trim()).filter((url) => url !== '')
+    : [requireEnv('NITTER_BASE_URL')];
+
+  if (urls.length === 0) {
+    throw new ConfigValidationError('NITTER_BASE_URLS must contain at least one URL');
+  }
+
+  const instances = urls.map((url) => validateUrl(url, key).replace(/\/+$/, ''));
+  const duplicate = instances.find((url, index) => instances.indexOf(url) !== index);
+  if (duplicate) {
+    throw new ConfigValidationError(`Duplicate Nitter instance in NITTER_BASE_URLS: ${duplicate}`);
+  }
+  return instances;
+}
+
+/**
+ * Load feed sources from NITTER_SOURCES, falling back to a single NITTER_USERNAME
+ */
+function loadSources(): SourceConfig[] {
+  const raw = parseJsonEnv('NITTER_SOURCES');
+  const defaultPolicies = loadDefaultPolicies();
+  const defaultBootstrap = parseBootstrapPolicy(optionalEnv('BOOTSTRAP_POLICY', 'latest:1'), 'BOOTSTRAP_POLICY');
+
+  if (raw === undefined) {
+    const username = requireEnv('NITTER_USERNAME');
+    return [{
+      id: username.toLowerCase(),
+      type: 'nitter',
+      username,
+      label: optionalEnv('NITTER_SOURCE_LABEL', username),
+      header: optionalEnv('NITTER_SOURCE_HEADER', 'Bitcoin Light New Post'),
+      policies: defaultPolicies,
+      bootstrap: defaultBootstrap,
+    }];
+  }
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ConfigValidationError('NITTER_SOURCES must be a non-empty JSON array');
+  }
+
+  const sources = raw.map((entry: unknown, index): SourceConfig => {
+    const name = `NITTER_SOURCES[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      throw new ConfigValidationError(`Invalid source at ${name}: expected an object`);
+    }
+
+    const record = entry as Record<string, unknown>;
+    const type = (optionalString(record, 'type', name) ?? 'nitter').toLowerCase() as SourceType;
+    const bootstrapValue = optionalString(record, 'bootstrap', name);
+    const bootstrap = bootstrapValue !== undefined ? parseBootstrapPolicy(bootstrapValue, `bootstrap of ${name}`) : defaultBootstrap;
+
+    if (type === 'feed') {
+      const url = optionalString(record, 'url', name);
+      const id = optionalString(record, 'id', name)?.toLowerCase();
+      if (!url || !id) {
+        throw new ConfigValidationError(`Feed source ${name} needs an id and a url`);
+      }
+      return {
+        id,
+        type,
+        username: '',
+        url: validateUrl(url, `${name}.url`),
+        label: optionalString(record, 'label', name) ?? id,
+        header: optionalString(record, 'header', name),
+        templates: parseSourceTemplates(record['templates'], name),
+        policies: defaultPolicies,
+        bootstrap,
+      };
+    }
+
+    if (type !== 'nitter') {
+      throw new ConfigValidationError(`Invalid type for ${name}: ${type} (expected nitter or feed)`);
+    }
+
+    const username = optionalString(record, 'username', name)?.replace(/^@/, '');
+    if (!username) {
+      throw new ConfigValidationError(`Missing username for ${name}`);
+    }
+
+    return {
+      id: (optionalString(record, 'id', name) ?? username).toLowerCase(),
+      type,
+      username,
+      label: optionalString(record, 'label', name) ?? username,
+      header: optionalString(record, 'header', name),
+      templates: parseSourceTemplates(record['templates'], name),
+      policies: parseSourcePolicies(record, name, defaultPolicies),
+      bootstrap,
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const source of sources) {
+    if (seen.has(source.id)) {
+      throw new ConfigValidationError(`Duplicate source id in NITTER_SOURCES: ${source.id}`);
+    }
+    seen.add(source.id);
+  }
+
+  return sources;
+}
+
+/**
+ * Read an optional array of strings from a JSON config object
+ */
+function optionalStringArray(entry: Record<string, unknown>, field: string, name: string): string[] | undefined {
+  const value = entry[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new ConfigValidationError(`Invalid ${field} for ${name}: expected an array of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Load the outbound webhook endpoints from WEBHOOKS (JSON array)
+ */
+function loadWebhookEndpoints(): WebhookEndpointConfig[] {
+  const raw = parseJsonEnv('WEBHOOKS');
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new ConfigValidationError('WEBHOOKS must be a JSON array');
+  }
+
+  const endpoints = raw.map((entry: unknown, index): WebhookEndpointConfig => {
+    const name = `WEBHOOKS[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      throw new ConfigValidationError(`Invalid entry ${name}: expected an object`);
+    }
+
+    const record = entry as Record<string, unknown>;
+    const endpointName = optionalString(record, 'name', name);
+    const url = optionalString(record, 'url', name);
+    const secret = optionalString(record, 'secret', name);
+
+    if (!endpointName || !/^[\w-]+$/.test(endpointName)) {
+      throw new ConfigValidationError(`Invalid name for ${name}: letters, digits, "_" and "-" only`);
+    }
+    if (!url || !secret) {
+      throw new ConfigValidationError(`Webhook ${endpointName} needs a url and a secret`);
+    }
+
+    const events = optionalStringArray(record, 'events', name) ?? [...WEBHOOK_EVENTS];
+    for (const event of events) {
+      if (!WEBHOOK_EVENTS.includes(event as WebhookEvent)) {
+        throw new ConfigValidationError(`Invalid event for ${name}: ${event} (expected one of ${WEBHOOK_EVENTS.join(', ')})`);
+      }
+    }
+
+    return {
+      name: endpointName.toLowerCase(),
+      url: validateUrl(url, `${name}.url`),
+      secret,
+      events: events as WebhookEvent[],
+      sources: (optionalStringArray(record, 'sources', name) ?? []).map((id) => id.toLowerCase()),
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const endpoint of endpoints) {
+    if (seen.has(endpoint.name)) {
+      throw new ConfigValidationError(`Duplicate webhook name in WEBHOOKS: ${endpoint.name}`);
+    }
+    seen.add(endpoint.name);
+  }
+
+  return endpoints;
+}
+
+/**
+ * Reject webhook source filters that name unknown sources
+ */
+function validateWebhooks(config: AppConfig): void {
+  const sourceIds = new Set(config.nitter.sources.map((source) => source.id));
+  for (const endpoint of config.webhooks.endpoints) {
+    const unknown = endpoint.sources.filter((id) => !sourceIds.has(id));
+    if (unknown.length > 0) {
+      throw new ConfigValidationError(`Webhook ${endpoint.name} filters on unknown source(s): ${unknown.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Mastodon needs both the instance URL and the access token, or neither
+ */
+function validateMastodon(config: AppConfig): void {
+  const { instanceUrl, accessToken } = config.mastodon;
+  if (instanceUrl) {
+    validateUrl(instanceUrl, 'MASTODON_INSTANCE_URL');
+  }
+  if (Boolean(instanceUrl) !== Boolean(accessToken)) {
+    throw new ConfigValidationError('MASTODON_INSTANCE_URL and MASTODON_ACCESS_TOKEN must be set together');
+  }
+}
+
+/**
+ * Bluesky needs both the identifier and the app password, or neither
+ */
+function validateBluesky(config: AppConfig): void {
+  const { identifier, appPassword } = config.bluesky;
+  if (Boolean(identifier) !== Boolean(appPassword)) {
+    throw new ConfigValidationError('BLUESKY_IDENTIFIER and BLUESKY_APP_PASSWORD must be set together');
+  }
+}
+
+/**
+ * Matrix needs the homeserver, access token and room together, or none of them
+ */
+function validateMatrix(config: AppConfig): void {
+  const { homeserverUrl, accessToken, roomId } = config.matrix;
+  if (homeserverUrl) {
+    validateUrl(homeserverUrl, 'MATRIX_HOMESERVER_URL');
+  }
+  const setCount = [homeserverUrl, accessToken, roomId].filter(Boolean).length;
+  if (setCount !== 0 && setCount !== 3) {
+    throw new ConfigValidationError('MATRIX_HOMESERVER_URL, MATRIX_ACCESS_TOKEN and MATRIX_ROOM_ID must be set together');
+  }
+  if (roomId && !/^[!#][^:]+:.+$/.test(roomId)) {
+    throw new ConfigValidationError(`Invalid MATRIX_ROOM_ID: ${roomId} (expected !id:server or #alias:server)`);
+  }
+}
+
+/**
+ * Slack posts through either an incoming webhook or a bot token with its channel
+ */
+function validateSlack(config: AppConfig): void {
+  const { webhookUrl, botToken, channelId } = config.slack;
+  if (webhookUrl) {
+    validateUrl(webhookUrl, 'SLACK_WEBHOOK_URL');
+  }
+  if (webhookUrl && botToken) {
+    throw new ConfigValidationError('Set either SLACK_WEBHOOK_URL or SLACK_BOT_TOKEN, not both');
+  }
+  if (Boolean(botToken) !== Boolean(channelId)) {
+    throw new ConfigValidationError('SLACK_BOT_TOKEN and SLACK_CHANNEL_ID must be set together');
+  }
+}
+
 /**
  * Load and validate all configuration
  */
@@ -76,8 +637,10 @@ export function loadConfig(): AppConfig {
     nodeEnv: optionalEnv('NODE_ENV', 'development'),
 
     nitter: {
-      baseUrl: validateUrl(requireEnv('NITTER_BASE_URL'), 'NITTER_BASE_URL'),
-      username: requireEnv('NITTER_USERNAME'),
+      instances: loadNitterInstances(),
+      failureThreshold: parseIntEnv('NITTER_FAILURE_THRESHOLD', 3),
+      cooldownMs: parseIntEnv('NITTER_COOLDOWN_MS', 300000),
+      sources: loadSources(),
     },
 
     database: {
@@ -85,17 +648,58 @@ export function loadConfig(): AppConfig {
       poolMax: parseIntEnv('DB_POOL_MAX', 10),
       idleTimeoutMs: parseIntEnv('DB_POOL_IDLE_TIMEOUT_MS', 30000),
       connectionTimeoutMs: parseIntEnv('DB_CONNECTION_TIMEOUT_MS', 5000),
+      autoMigrate: parseBoolEnv('DB_AUTO_MIGRATE', false),
     },
 
     telegram: {
       botToken: requireEnv('TELEGRAM_BOT_TOKEN'),
       channelId: requireEnv('TELEGRAM_CHANNEL_ID'),
+      template: templateEnv('TELEGRAM_TEMPLATE', DEFAULT_TELEGRAM_TEMPLATE),
+      adminUserIds: parseIdListEnv('TELEGRAM_ADMIN_USER_IDS'),
     },
 
     discord: {
       botToken: requireEnv('DISCORD_BOT_TOKEN'),
       channelId: requireEnv('DISCORD_CHANNEL_ID'),
       alertChannelId: optionalEnv('DISCORD_ALERT_CHANNEL_ID', ''),
+      messageFormat: parseEnumEnv<DiscordMessageFormat>('DISCORD_MESSAGE_FORMAT', ['embed', 'text'], 'text'),
+      embedColor: parseColorEnv('DISCORD_EMBED_COLOR', '#F7931A'),
+      template: templateEnv('DISCORD_TEMPLATE', DEFAULT_DISCORD_TEMPLATE),
+      embedTemplate: templateEnv('DISCORD_EMBED_TEMPLATE', DEFAULT_DISCORD_EMBED_TEMPLATE),
+      adminRoleId: optionalEnv('DISCORD_ADMIN_ROLE_ID', ''),
+    },
+
+    mastodon: {
+      instanceUrl: optionalEnv('MASTODON_INSTANCE_URL', '').replace(/\/+$/, ''),
+      accessToken: optionalEnv('MASTODON_ACCESS_TOKEN', ''),
+      visibility: parseEnumEnv<MastodonVisibility>('MASTODON_VISIBILITY', ['public', 'unlisted', 'private', 'direct'], 'public'),
+      template: templateEnv('MASTODON_TEMPLATE', DEFAULT_MASTODON_TEMPLATE),
+    },
+
+    bluesky: {
+      service: validateUrl(optionalEnv('BLUESKY_SERVICE', 'https://bsky.social').replace(/\/+$/, ''), 'BLUESKY_SERVICE'),
+      identifier: optionalEnv('BLUESKY_IDENTIFIER', '').replace(/^@/, ''),
+      appPassword: optionalEnv('BLUESKY_APP_PASSWORD', ''),
+      template: templateEnv('BLUESKY_TEMPLATE', DEFAULT_BLUESKY_TEMPLATE),
+    },
+
+    matrix: {
+      homeserverUrl: optionalEnv('MATRIX_HOMESERVER_URL', '').replace(/\/+$/, ''),
+      accessToken: optionalEnv('MATRIX_ACCESS_TOKEN', ''),
+      roomId: optionalEnv('MATRIX_ROOM_ID', ''),
+      template: templateEnv('MATRIX_TEMPLATE', DEFAULT_MATRIX_TEMPLATE),
+    },
+
+    slack: {
+      webhookUrl: optionalEnv('SLACK_WEBHOOK_URL', ''),
+      botToken: optionalEnv('SLACK_BOT_TOKEN', ''),
+      channelId: optionalEnv('SLACK_CHANNEL_ID', ''),
+      title: optionalEnv('SLACK_TITLE', '{source}'),
+    },
+
+    webhooks: {
+      endpoints: loadWebhookEndpoints(),
+      timeoutMs: parseIntEnv('WEBHOOK_TIMEOUT_MS', 10000),
     },
 
     polling: {
@@ -107,12 +711,47 @@ export function loadConfig(): AppConfig {
       retryDelayMs: parseIntEnv('RETRY_DELAY_MS', 1000),
     },
 
+    delivery: {
+      maxAttempts: parseIntEnv('DELIVERY_MAX_ATTEMPTS', 5),
+      backoffBaseMs: parseIntEnv('DELIVERY_BACKOFF_BASE_MS', 30000),
+      backoffMaxMs: parseIntEnv('DELIVERY_BACKOFF_MAX_MS', 3600000),
+      workerIntervalMs: parseIntEnv('OUTBOX_WORKER_INTERVAL_MS', 15000),
+      batchSize: parseIntEnv('OUTBOX_BATCH_SIZE', 20),
+      sendIntervalMs: parseIntEnv('OUTBOX_SEND_INTERVAL_MS', 1000),
+    },
+
+    template: {
+      timezone: optionalEnv('TEMPLATE_TIMEZONE', 'UTC'),
+      locale: optionalEnv('TEMPLATE_LOCALE', 'en-US'),
+    },
+
+    reconcile: {
+      enabled: parseBoolEnv('RECONCILE_ENABLED', false),
+      cronExpression: optionalEnv('RECONCILE_CRON_EXPRESSION', '*/30 * * * *'),
+      windowHours: parseIntEnv('RECONCILE_WINDOW_HOURS', 24),
+      deleteMode: parseEnumEnv<ReconcileDeleteMode>('RECONCILE_DELETE_MODE', ['delete', 'strike', 'ignore'], 'delete'),
+    },
+
+    http: {
+      enabled: parseBoolEnv('HTTP_ENABLED', true),
+      host: optionalEnv('HTTP_HOST', '0.0.0.0'),
+      port: parseIntEnv('HTTP_PORT', 3000),
+    },
+
     log: {
       level: optionalEnv('LOG_LEVEL', 'info'),
       pretty: parseBoolEnv('LOG_PRETTY', false),
     },
   };
 
+  validateTemplates(config);
+  validatePolicies(config.nitter.sources);
+  validateWebhooks(config);
+  validateMastodon(config);
+  validateBluesky(config);
+  validateMatrix(config);
+  validateSlack(config);
+
   return config;
 }
 
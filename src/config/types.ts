@@ -3,9 +3,86 @@
  * Strict typing for all environment variables
  */
 
-export interface NitterConfig {
-  baseUrl: string;
+/**
+ * Message templates that can be overridden per source
+ */
+export interface SourceTemplates {
+  telegram?: string;
+  discord?: string;
+  discordEmbed?: string;
+  mastodon?: string;
+  bluesky?: string;
+  matrix?: string;
+}
+
+/**
+ * How retweets, quote tweets or replies to other accounts are handled
+ * - skip: never relayed
+ * - relay: relayed with attribution
+ * - allowlist: relayed with attribution only when the original author is allowlisted
+ */
+export type ContentPolicy = 'skip' | 'relay' | 'allowlist';
+
+/**
+ * Per-source handling of content not written by the account itself
+ */
+export interface SourcePolicies {
+  retweets: ContentPolicy;
+  quotes: ContentPolicy;
+  replies: ContentPolicy;
+  /** Lowercased usernames (without @) accepted by the allowlist policy */
+  allowlist: string[];
+}
+
+/**
+ * Kind of feed a source is read from
+ * - nitter: an X account through the Nitter instances
+ * - feed: any RSS 2.0 or Atom 1.0 feed (blog, Medium, GitHub releases, ...)
+ */
+export type SourceType = 'nitter' | 'feed';
+
+/**
+ * What is relayed the first time a source is polled (none of its tweets recorded yet)
+ * - none: nothing; every tweet in the feed is recorded as skipped
+ * - latest: the newest `count` tweets
+ * - since: the tweets published since a date
+ */
+export type BootstrapPolicy =
+  | { mode: 'none' }
+  | { mode: 'latest'; count: number }
+  | { mode: 'since'; since: Date };
+
+/**
+ * A single X account or feed relayed by the bot
+ */
+export interface SourceConfig {
+  /** Stable key stored in tweets_processed.source */
+  id: string;
+  type: SourceType;
+  /** X account (nitter sources; empty for feed sources) */
   username: string;
+  /** Feed URL (feed sources) */
+  url?: string;
+  /** Display label used in logs and alerts */
+  label: string;
+  /** Optional header line shown above relayed posts */
+  header?: string;
+  /** Per-source template overrides */
+  templates?: SourceTemplates;
+  /** Retweet, quote and reply handling */
+  policies: SourcePolicies;
+  /** Tweets relayed when the source is first polled */
+  bootstrap: BootstrapPolicy;
+}
+
+export interface NitterConfig {
+  /** Nitter base URLs, in order of preference */
+  instances: string[];
+  /** Consecutive failures that open an instance's circuit */
+  failureThreshold: number;
+  /** How long an open circuit keeps an instance out of rotation */
+  cooldownMs: number;
+  sources: SourceConfig[];
 }
 
 export interface DatabaseConfig {
@@ -13,17 +90,104 @@ export interface DatabaseConfig {
   poolMax: number;
   idleTimeoutMs: number;
   connectionTimeoutMs: number;
+  /** Apply pending migrations at startup */
+  autoMigrate: boolean;
 }
 
 export interface TelegramConfig {
   botToken: string;
   channelId: string;
+  /** Message template (Telegram HTML) */
+  template: string;
+  /** Telegram user ids allowed to run admin commands; admin mode is off when empty */
+  adminUserIds: number[];
 }
 
+export type DiscordMessageFormat = 'embed' | 'text';
+
 export interface DiscordConfig {
   botToken: string;
   channelId: string;
   alertChannelId?: string;
+  /** Post tweets as rich embeds or plain markdown text */
+  messageFormat: DiscordMessageFormat;
+  /** Embed accent color as a 24-bit integer */
+  embedColor: number;
+  /** Plain text message template (Discord markdown) */
+  template: string;
+  /** Embed description template (Discord markdown) */
+  embedTemplate: string;
+  /** Role allowed to use the /relay slash commands; slash commands are off when empty */
+  adminRoleId?: string;
+}
+
+export type MastodonVisibility = 'public' | 'unlisted' | 'private' | 'direct';
+
+export interface MastodonConfig {
+  /** Instance base URL; Mastodon posting is off when empty */
+  instanceUrl: string;
+  accessToken: string;
+  visibility: MastodonVisibility;
+  /** Status template (plain text) */
+  template: string;
+}
+
+export interface BlueskyConfig {
+  /** PDS base URL */
+  service: string;
+  /** Handle or DID; Bluesky posting is off when empty */
+  identifier: string;
+  appPassword: string;
+  /** Post template (plain text) */
+  template: string;
+}
+
+export interface MatrixConfig {
+  /** Homeserver base URL; Matrix posting is off when empty */
+  homeserverUrl: string;
+  accessToken: string;
+  /** Room id (!id:server) or alias (#alias:server) the bot has joined */
+  roomId: string;
+  /** Message template (HTML, sent as formatted_body) */
+  template: string;
+}
+
+export interface SlackConfig {
+  /** Incoming webhook URL (posting only); Slack posting is off when neither this nor the bot token is set */
+  webhookUrl: string;
+  /** Bot token for chat.postMessage (threads, edits and deletions) */
+  botToken: string;
+  /** Channel the bot posts to */
+  channelId: string;
+  /** Header block text; supports template placeholders */
+  title: string;
+}
+
+export type WebhookEvent = 'post.created' | 'post.updated' | 'post.deleted';
+
+export interface WebhookEndpointConfig {
+  /** Endpoint name; its deliveries are stored under the destination webhook:<name> */
+  name: string;
+  url: string;
+  /** Key of the HMAC-SHA256 request signature */
+  secret: string;
+  /** Events sent to this endpoint */
+  events: WebhookEvent[];
+  /** Source ids sent to this endpoint; every source when empty */
+  sources: string[];
+}
+
+export interface WebhookConfig {
+  endpoints: WebhookEndpointConfig[];
+  /** Request timeout per delivery */
+  timeoutMs: number;
+}
+
+export interface TemplateConfig {
+  /** IANA timezone used for {date} */
+  timezone: string;
+  /** BCP 47 locale used for {date} */
+  locale: string;
 }
 
 export interface PollingConfig {
@@ -35,6 +199,38 @@ export interface RetryConfig {
   retryDelayMs: number;
 }
 
+export interface DeliveryConfig {
+  /** Attempts per destination before a message is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles with every failed attempt */
+  backoffBaseMs: number;
+  /** Upper bound for the retry delay */
+  backoffMaxMs: number;
+  /** How often the outbox worker drains due messages */
+  workerIntervalMs: number;
+  /** Maximum messages sent per destination in one drain */
+  batchSize: number;
+  /** Pause between two sends to avoid rate limiting */
+  sendIntervalMs: number;
+}
+
+export type ReconcileDeleteMode = 'delete' | 'strike' | 'ignore';
+
+export interface ReconcileConfig {
+  enabled: boolean;
+  cronExpression: string;
+  /** Only tweets published within this many hours are re-checked */
+  windowHours: number;
+  /** What to do with relayed messages of deleted tweets */
+  deleteMode: ReconcileDeleteMode;
+}
+
+export interface HttpConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+}
+
 export interface LogConfig {
   level: string;
   pretty: boolean;
@@ -46,7 +242,16 @@ export interface AppConfig {
   database: DatabaseConfig;
   telegram: TelegramConfig;
   discord: DiscordConfig;
+  mastodon: MastodonConfig;
+  bluesky: BlueskyConfig;
+  matrix: MatrixConfig;
+  slack: SlackConfig;
+  webhooks: WebhookConfig;
   polling: PollingConfig;
   retry: RetryConfig;
+  delivery: DeliveryConfig;
+  template: TemplateConfig;
+  reconcile: ReconcileConfig;
+  http: HttpConfig;
   log: LogConfig;
 }
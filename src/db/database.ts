@@ -51,16 +51,36 @@ export class DatabaseService {
   }
 
   /**
-   * Execute a query using the pool
+   * Run queries in one transaction on a dedicated client
+   * Rolls back and rethrows when the work fails
    */
-  async query<T>(text: string, params?: unknown[]): Promise<T[]> {
+  async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Execute a query using the pool, or the given client inside a transaction
+   */
+  async query<T>(text: string, params?: unknown[], client?: PoolClient): Promise<T[]> {
     if (this.isShuttingDown) {
       throw new Error('Database is shutting down');
     }
 
     const start = Date.now();
     try {
-      const result = await this.pool.query(text, params);
+      const result = await (client ?? this.pool).query(text, params);
       const duration = Date.now() - start;
       this.logger.debug({ text, duration, rows: result.rowCount }, 'Query executed');
       return result.rows as T[];
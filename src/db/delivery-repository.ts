@@ -0,0 +1,157 @@
+import type { PoolClient } from 'pg';
+import type { DatabaseService } from './database.js';
+import type { Logger } from 'pino';
+
+/**
+ * Destination a tweet is delivered to: the name of a publisher (telegram, discord, ...)
+ */
+export type DeliveryDestination = string;
+
+/**
+ * Delivery state of a tweet for one destination
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed' | 'skipped';
+
+/**
+ * Delivery record as stored in database
+ */
+export interface DeliveryRecord {
+  tweet_id: string;
+  destination: DeliveryDestination;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  platform_message_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * DeliveryRepository - Data access layer for tweet_deliveries table
+ * Records the per-destination outcome of every relayed tweet
+ */
+export class DeliveryRepository {
+  private db: DatabaseService;
+  private logger: Logger;
+
+  constructor(db: DatabaseService, logger: Logger) {
+    this.db = db;
+    this.logger = logger.child({ component: 'DeliveryRepository' });
+  }
+
+  /**
+   * Create ledger rows for a tweet with the given status
+   * Existing rows are left untouched
+   */
+  async create(
+    tweetId: string,
+    destinations: readonly DeliveryDestination[],
+    status: DeliveryStatus = 'pending',
+    client?: PoolClient
+  ): Promise<void> {
+    if (destinations.length === 0) {
+      return;
+    }
+
+    const values = destinations.map((_, i) => `($1, $${i + 3}, $2)`).join(', ');
+    const query = `
+      INSERT INTO tweet_deliveries (tweet_id, destination, status)
+      VALUES ${values}
+      ON CONFLICT (tweet_id, destination) DO NOTHING
+    `;
+
+    await this.db.query(query, [tweetId, status, ...destinations], client);
+    this.logger.debug({ tweetId, destinations, status }, 'Delivery rows created');
+  }
+
+  /**
+   * Record a successful delivery
+   */
+  async markDelivered(
+    tweetId: string,
+    destination: DeliveryDestination,
+    platformMessageId: string | null
+  ): Promise<void> {
+    const query = `
+      UPDATE tweet_deliveries
+      SET status = 'delivered',
+          attempts = attempts + 1,
+          last_error = NULL,
+          platform_message_id = $3,
+          updated_at = NOW()
+      WHERE tweet_id = $1 AND destination = $2
+    `;
+
+    await this.db.query(query, [tweetId, destination, platformMessageId]);
+    this.logger.debug({ tweetId, destination, platformMessageId }, 'Delivery marked as delivered');
+  }
+
+  /**
+   * Record a failed delivery attempt
+   * The row stays pending while retries remain; a final failure marks it failed
+   */
+  async markFailed(
+    tweetId: string,
+    destination: DeliveryDestination,
+    error: string,
+    final: boolean
+  ): Promise<void> {
+    const query = `
+      UPDATE tweet_deliveries
+      SET attempts = attempts + 1,
+          status = $4,
+          last_error = $3,
+          updated_at = NOW()
+      WHERE tweet_id = $1 AND destination = $2
+    `;
+
+    const status: DeliveryStatus = final ? 'failed' : 'pending';
+    await this.db.query(query, [tweetId, destination, error, status]);
+
+    if (final) {
+      this.logger.warn({ tweetId, destination, error }, 'Delivery gave up after max attempts');
+    } else {
+      this.logger.debug({ tweetId, destination, error }, 'Delivery attempt failed');
+    }
+  }
+
+  /**
+   * Put a delivery back to pending (e.g. after its dead letter was requeued)
+   */
+  async markPending(tweetId: string, destination: DeliveryDestination, client?: PoolClient): Promise<void> {
+    const query = `
+      UPDATE tweet_deliveries
+      SET status = 'pending',
+          updated_at = NOW()
+      WHERE tweet_id = $1 AND destination = $2
+    `;
+    await this.db.query(query, [tweetId, destination], client);
+  }
+
+  /**
+   * Mark a delivery as skipped (e.g. the tweet was deleted before it went out)
+   */
+  async markSkipped(tweetId: string, destination: DeliveryDestination): Promise<void> {
+    const query = `
+      UPDATE tweet_deliveries
+      SET status = 'skipped',
+          updated_at = NOW()
+      WHERE tweet_id = $1 AND destination = $2
+    `;
+    await this.db.query(query, [tweetId, destination]);
+  }
+
+  /**
+   * Get all delivery rows for a tweet
+   */
+  async getByTweet(tweetId: string): Promise<DeliveryRecord[]> {
+    const query = `
+      SELECT tweet_id, destination, status, attempts, last_error,
+             platform_message_id, created_at, updated_at
+      FROM tweet_deliveries
+      WHERE tweet_id = $1
+      ORDER BY destination
+    `;
+    return this.db.query<DeliveryRecord>(query, [tweetId]);
+  }
+}
@@ -1,2 +1,15 @@
 export { DatabaseService } from './database.js';
+export { Migrator, DEFAULT_MIGRATIONS_DIR, type MigrationStatus } from './migrator.js';
 export { TweetRepository, type TweetRecord } from './tweet-repository.js';
+export {
+  DeliveryRepository,
+  type DeliveryDestination,
+  type DeliveryStatus,
+  type DeliveryRecord,
+} from './delivery-repository.js';
+export {
+  OutboxRepository,
+  type OutboxMessage,
+  type DeadLetter,
+  type RequeueFilter,
+} from './outbox-repository.js';
@@ -0,0 +1,49 @@
+import { parseArgs } from 'node:util';
+import { loadConfig } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { DatabaseService } from './database.js';
+import { Migrator } from './migrator.js';
+
+/**
+ * Apply or inspect database migrations
+ *
+ * Usage: npm run db:migrate -- [up|status]
+ * up (default) applies every pending file in sql/; status lists applied and pending files
+ */
+async function main(): Promise<void> {
+  const { positionals } = parseArgs({ allowPositionals: true });
+  const command = positionals[0] ?? 'up';
+
+  if (command !== 'up' && command !== 'status') {
+    throw new Error(`Unknown command: ${command} (expected up or status)`);
+  }
+
+  const config = loadConfig();
+  const logger = createLogger(config.log);
+  const db = new DatabaseService(config.database, logger);
+
+  try {
+    const migrator = new Migrator(db, logger, config.nitter.sources[0]?.id);
+
+    if (command === 'up') {
+      await migrator.up();
+      return;
+    }
+
+    for (const migration of await migrator.status()) {
+      const state = migration.missing
+        ? 'missing file'
+        : migration.appliedAt
+          ? `applied ${migration.appliedAt.toISOString()}${migration.modified ? ' (file modified since)' : ''}`
+          : 'pending';
+      console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('Migration failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,240 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PoolClient } from 'pg';
+import type { Logger } from 'pino';
+import type { DatabaseService } from './database.js';
+
+/**
+ * Default location of the numbered migration files (sql/ at the project root,
+ * reached the same way from src/db and dist/db)
+ */
+export const DEFAULT_MIGRATIONS_DIR = fileURLToPath(new URL('../../sql', import.meta.url));
+
+/**
+ * Key of the advisory lock held while migrating, so concurrent runners apply each file once
+ */
+const MIGRATION_LOCK_KEY = 7_340_214_001;
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+/**
+ * A migration file in the migrations directory
+ */
+interface MigrationFile {
+  version: number;
+  name: string;
+  filename: string;
+  checksum: string;
+  sql: string;
+}
+
+/**
+ * Applied migration as stored in schema_migrations
+ */
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * State of a single migration
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+  /** The file changed after it was applied */
+  modified: boolean;
+  /** Recorded in schema_migrations but the file is gone */
+  missing: boolean;
+}
+
+/**
+ * Migrator - Applies the numbered SQL files in sql/ in order
+ * Applied files are recorded in schema_migrations; each file runs in its own
+ * transaction while a session advisory lock keeps other runners out
+ */
+export class Migrator {
+  private db: DatabaseService;
+  private defaultSource: string | undefined;
+  private migrationsDir: string;
+  private logger: Logger;
+
+  /**
+   * @param defaultSource Source id assigned to tweets recorded before multi-source support
+   */
+  constructor(db: DatabaseService, logger: Logger, defaultSource?: string, migrationsDir: string = DEFAULT_MIGRATIONS_DIR) {
+    this.db = db;
+    this.defaultSource = defaultSource;
+    this.migrationsDir = migrationsDir;
+    this.logger = logger.child({ component: 'Migrator' });
+  }
+
+  /**
+   * List every known migration and whether it was applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const files = await this.loadFiles();
+    const client = await this.db.getClient();
+
+    try {
+      await this.ensureTable(client);
+      const applied = await this.getApplied(client);
+
+      const statuses: MigrationStatus[] = files.map((file) => {
+        const record = applied.get(file.version);
+        return {
+          version: file.version,
+          name: file.name,
+          appliedAt: record?.applied_at ?? null,
+          modified: record !== undefined && record.checksum !== file.checksum,
+          missing: false,
+        };
+      });
+
+      for (const record of applied.values()) {
+        if (!files.some((file) => file.version === record.version)) {
+          statuses.push({ version: record.version, name: record.name, appliedAt: record.applied_at, modified: false, missing: true });
+        }
+      }
+
+      return statuses.sort((a, b) => a.version - b.version);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Apply all pending migrations in order
+   * Returns the filenames that were applied
+   */
+  async up(): Promise<string[]> {
+    const files = await this.loadFiles();
+    const client = await this.db.getClient();
+    const appliedNow: string[] = [];
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+      try {
+        await this.ensureTable(client);
+        // Read after taking the lock: another runner may have just finished
+        const applied = await this.getApplied(client);
+
+        for (const file of files) {
+          const record = applied.get(file.version);
+          if (record) {
+            if (record.checksum !== file.checksum) {
+              this.logger.warn({ migration: file.filename }, 'Applied migration file was modified since it ran');
+            }
+            continue;
+          }
+
+          await this.apply(client, file);
+          appliedNow.push(file.filename);
+        }
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+
+    if (appliedNow.length > 0) {
+      this.logger.info({ applied: appliedNow }, 'Database migrations applied');
+    } else {
+      this.logger.info('Database schema is up to date');
+    }
+
+    return appliedNow;
+  }
+
+  /**
+   * Run a migration file and record it in one transaction
+   */
+  private async apply(client: PoolClient, file: MigrationFile): Promise<void> {
+    const start = Date.now();
+    this.logger.info({ migration: file.filename }, 'Applying migration');
+
+    try {
+      await client.query('BEGIN');
+      // Transaction-local, read by migrations with current_setting('nearm.default_source', true)
+      if (this.defaultSource) {
+        await client.query("SELECT set_config('nearm.default_source', $1, true)", [this.defaultSource]);
+      }
+      await client.query(file.sql);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [file.version, file.name, file.checksum]
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw new Error(`Migration ${file.filename} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    this.logger.info({ migration: file.filename, duration: Date.now() - start }, 'Migration applied');
+  }
+
+  /**
+   * Create the tracking table on first use
+   */
+  private async ensureTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+  }
+
+  /**
+   * Get applied migrations by version
+   */
+  private async getApplied(client: PoolClient): Promise<Map<number, AppliedMigration>> {
+    const result = await client.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    );
+    return new Map(result.rows.map((row) => [row.version, row]));
+  }
+
+  /**
+   * Read the migration files, ordered by version
+   */
+  private async loadFiles(): Promise<MigrationFile[]> {
+    const entries = await readdir(this.migrationsDir);
+    const files: MigrationFile[] = [];
+
+    for (const filename of entries.sort()) {
+      const match = filename.match(MIGRATION_FILE_PATTERN);
+      if (!match) {
+        continue;
+      }
+
+      const sql = await readFile(join(this.migrationsDir, filename), 'utf8');
+      files.push({
+        version: parseInt(match[1]!, 10),
+        name: match[2]!,
+        filename,
+        checksum: createHash('sha256').update(sql).digest('hex'),
+        sql,
+      });
+    }
+
+    files.sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < files.length; i++) {
+      if (files[i]!.version === files[i - 1]!.version) {
+        throw new Error(`Duplicate migration version ${files[i]!.version}: ${files[i - 1]!.filename}, ${files[i]!.filename}`);
+      }
+    }
+
+    return files;
+  }
+}
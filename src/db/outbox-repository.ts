@@ -0,0 +1,300 @@
+import type { PoolClient } from 'pg';
+import type { DatabaseService } from './database.js';
+import type { DeliveryDestination } from './delivery-repository.js';
+import type { ParsedTweet } from '../clients/telegram-client.js';
+import { serializeTweet, deserializeTweet, type SerializedTweet } from './tweet-payload.js';
+import type { Logger } from 'pino';
+
+/**
+ * Outbox message ready to be delivered
+ */
+export interface OutboxMessage {
+  id: string;
+  tweetId: string;
+  destination: DeliveryDestination;
+  tweet: ParsedTweet;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Dead-lettered message
+ */
+export interface DeadLetter {
+  id: string;
+  tweetId: string;
+  destination: DeliveryDestination;
+  attempts: number;
+  lastError: string | null;
+  deadAt: Date;
+}
+
+/**
+ * Filter for requeueing dead letters
+ */
+export interface RequeueFilter {
+  id?: string;
+  tweetId?: string;
+  destination?: DeliveryDestination;
+}
+
+/**
+ * Outbox row as stored in database
+ */
+interface OutboxRow {
+  id: string;
+  tweet_id: string;
+  destination: DeliveryDestination;
+  payload: SerializedTweet;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date;
+  created_at: Date;
+}
+
+/**
+ * OutboxRepository - Data access layer for outbox and outbox_dead_letters tables
+ */
+export class OutboxRepository {
+  private db: DatabaseService;
+  private logger: Logger;
+
+  constructor(db: DatabaseService, logger: Logger) {
+    this.db = db;
+    this.logger = logger.child({ component: 'OutboxRepository' });
+  }
+
+  /**
+   * Queue a tweet for delivery to the given destinations (right away unless a later time is given)
+   * Messages already queued for a destination are left untouched
+   */
+  async enqueue(
+    tweet: ParsedTweet,
+    destinations: readonly DeliveryDestination[],
+    nextAttemptAt?: Date,
+    client?: PoolClient
+  ): Promise<void> {
+    if (destinations.length === 0) {
+      return;
+    }
+
+    const values = destinations.map((_, i) => `($1, $${i + 4}, $2, COALESCE($3::timestamp, NOW()))`).join(', ');
+    const query = `
+      INSERT INTO outbox (tweet_id, destination, payload, next_attempt_at)
+      VALUES ${values}
+      ON CONFLICT (tweet_id, destination) DO NOTHING
+    `;
+
+    await this.db.query(query, [tweet.id, serializeTweet(tweet), nextAttemptAt ?? null, ...destinations], client);
+    this.logger.debug({ tweetId: tweet.id, destinations, nextAttemptAt }, 'Tweet queued for delivery');
+  }
+
+  /**
+   * Get messages whose next attempt is due, oldest tweet first
+   * Each destination gets its own limit, so the backlog of one that is down cannot crowd
+   * the others out of a drain; continuations whose thread parent is still waiting for
+   * a retry on the same destination are left for a later drain
+   * @param limit Maximum messages per destination
+   */
+  async getDue(limit: number): Promise<OutboxMessage[]> {
+    const query = `
+      SELECT id, tweet_id, destination, payload, attempts,
+             last_error, next_attempt_at, created_at
+      FROM (
+        SELECT o.*, t.published_at,
+               ROW_NUMBER() OVER (PARTITION BY o.destination ORDER BY t.published_at ASC, o.id ASC) AS position
+        FROM outbox o
+        JOIN tweets_processed t ON t.id = o.tweet_id
+        WHERE o.next_attempt_at <= NOW()
+          AND NOT EXISTS (
+            SELECT 1 FROM outbox parent
+            WHERE parent.tweet_id = o.payload->>'inReplyToId'
+              AND parent.destination = o.destination
+              AND parent.next_attempt_at > NOW()
+          )
+      ) due
+      WHERE position <= $1
+      ORDER BY published_at ASC, id ASC
+    `;
+    const rows = await this.db.query<OutboxRow>(query, [limit]);
+    return rows.map((row) => this.toMessage(row));
+  }
+
+  /**
+   * Remove a delivered message from the outbox
+   */
+  async markSent(id: string): Promise<void> {
+    await this.db.query('DELETE FROM outbox WHERE id = $1', [id]);
+  }
+
+  /**
+   * Record a failed attempt and schedule the next one
+   */
+  async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    const query = `
+      UPDATE outbox
+      SET attempts = attempts + 1,
+          last_error = $2,
+          next_attempt_at = $3
+      WHERE id = $1
+    `;
+    await this.db.query(query, [id, error, nextAttemptAt]);
+  }
+
+  /**
+   * Move a message to the dead-letter table after its final failed attempt
+   */
+  async moveToDeadLetter(id: string, error: string): Promise<void> {
+    const query = `
+      WITH moved AS (
+        DELETE FROM outbox WHERE id = $1
+        RETURNING id, tweet_id, destination, payload, attempts, created_at
+      )
+      INSERT INTO outbox_dead_letters (id, tweet_id, destination, payload, attempts, last_error, created_at)
+      SELECT id, tweet_id, destination, payload, attempts + 1, $2, created_at
+      FROM moved
+      ON CONFLICT (id) DO NOTHING
+    `;
+    await this.db.query(query, [id, error]);
+    this.logger.warn({ outboxId: id, error }, 'Message moved to dead letters');
+  }
+
+  /**
+   * Replace the payload of queued messages for a tweet (e.g. after an edit)
+   */
+  async updatePayload(tweet: ParsedTweet): Promise<void> {
+    await this.db.query('UPDATE outbox SET payload = $2 WHERE tweet_id = $1', [tweet.id, serializeTweet(tweet)]);
+  }
+
+  /**
+   * Drop queued messages for a tweet (e.g. after it was deleted)
+   * Returns the destinations that will no longer be delivered
+   */
+  async cancel(tweetId: string): Promise<DeliveryDestination[]> {
+    const rows = await this.db.query<{ destination: DeliveryDestination }>(
+      'DELETE FROM outbox WHERE tweet_id = $1 RETURNING destination',
+      [tweetId]
+    );
+    if (rows.length > 0) {
+      this.logger.info({ tweetId, count: rows.length }, 'Queued messages cancelled');
+    }
+    return rows.map((row) => row.destination);
+  }
+
+  /**
+   * Drop the dead letters of a tweet for some destinations (e.g. when it is queued again)
+   */
+  async discardDeadLetters(tweetId: string, destinations: readonly DeliveryDestination[], client?: PoolClient): Promise<void> {
+    await this.db.query(
+      'DELETE FROM outbox_dead_letters WHERE tweet_id = $1 AND destination = ANY($2::text[])',
+      [tweetId, destinations],
+      client
+    );
+  }
+
+  /**
+   * Move dead letters back into the outbox with a fresh attempt budget
+   * They keep their message id, so a destination that did receive one before it was
+   * dead-lettered recognises the retry by its idempotency key
+   * Returns the requeued messages
+   */
+  async requeueDeadLetters(filter: RequeueFilter = {}): Promise<{ tweetId: string; destination: DeliveryDestination }[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.id) {
+      params.push(filter.id);
+      conditions.push(`id = $${params.length}`);
+    }
+    if (filter.tweetId) {
+      params.push(filter.tweetId);
+      conditions.push(`tweet_id = $${params.length}`);
+    }
+    if (filter.destination) {
+      params.push(filter.destination);
+      conditions.push(`destination = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const query = `
+      WITH moved AS (
+        DELETE FROM outbox_dead_letters ${where}
+        RETURNING id, tweet_id, destination, payload
+      )
+      INSERT INTO outbox (id, tweet_id, destination, payload)
+      SELECT id, tweet_id, destination, payload
+      FROM moved
+      ON CONFLICT (tweet_id, destination) DO NOTHING
+      RETURNING tweet_id, destination
+    `;
+
+    const rows = await this.db.query<{ tweet_id: string; destination: DeliveryDestination }>(query, params);
+    this.logger.info({ ...filter, count: rows.length }, 'Dead letters requeued');
+
+    return rows.map((row) => ({ tweetId: row.tweet_id, destination: row.destination }));
+  }
+
+  /**
+   * Get the most recent dead letters
+   */
+  async getDeadLetters(limit: number = 20): Promise<DeadLetter[]> {
+    const query = `
+      SELECT id, tweet_id, destination, attempts, last_error, dead_at
+      FROM outbox_dead_letters
+      ORDER BY dead_at DESC
+      LIMIT $1
+    `;
+    const rows = await this.db.query<{
+      id: string;
+      tweet_id: string;
+      destination: DeliveryDestination;
+      attempts: number;
+      last_error: string | null;
+      dead_at: Date;
+    }>(query, [limit]);
+
+    return rows.map((row) => ({
+      id: row.id,
+      tweetId: row.tweet_id,
+      destination: row.destination,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      deadAt: row.dead_at,
+    }));
+  }
+
+  /**
+   * Count queued and dead-lettered messages
+   */
+  async getCounts(): Promise<{ pending: number; dead: number }> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM outbox) AS pending,
+        (SELECT COUNT(*) FROM outbox_dead_letters) AS dead
+    `;
+    const rows = await this.db.query<{ pending: string; dead: string }>(query);
+    const firstRow = rows[0];
+    return {
+      pending: firstRow ? parseInt(firstRow.pending, 10) : 0,
+      dead: firstRow ? parseInt(firstRow.dead, 10) : 0,
+    };
+  }
+
+  /**
+   * Convert a database row to an outbox message
+   */
+  private toMessage(row: OutboxRow): OutboxMessage {
+    return {
+      id: row.id,
+      tweetId: row.tweet_id,
+      destination: row.destination,
+      tweet: deserializeTweet(row.payload),
+      attempts: row.attempts,
+      lastError: row.last_error,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at,
+    };
+  }
+}
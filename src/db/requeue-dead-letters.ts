@@ -0,0 +1,50 @@
+import { parseArgs } from 'node:util';
+import { loadConfig } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { DatabaseService } from './database.js';
+import { DeliveryRepository } from './delivery-repository.js';
+import { OutboxRepository } from './outbox-repository.js';
+
+/**
+ * Move dead-lettered messages back into the outbox
+ *
+ * Usage: npm run outbox:requeue -- [--id <deadLetterId>] [--tweet <tweetId>] [--destination <publisher>]
+ * Without filters every dead letter is requeued
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      id: { type: 'string' },
+      tweet: { type: 'string' },
+      destination: { type: 'string' },
+    },
+  });
+
+  const config = loadConfig();
+  const logger = createLogger(config.log);
+  const db = new DatabaseService(config.database, logger);
+
+  try {
+    const outboxRepository = new OutboxRepository(db, logger);
+    const deliveryRepository = new DeliveryRepository(db, logger);
+
+    const requeued = await outboxRepository.requeueDeadLetters({
+      id: values.id,
+      tweetId: values.tweet,
+      destination: values.destination,
+    });
+
+    for (const message of requeued) {
+      await deliveryRepository.markPending(message.tweetId, message.destination);
+    }
+
+    logger.info({ count: requeued.length }, 'Requeued dead letters; the running bot will deliver them on its next drain');
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('Requeue failed:', err);
+  process.exit(1);
+});
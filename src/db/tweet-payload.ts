@@ -0,0 +1,28 @@
+import type { ParsedTweet, TweetMedia } from '../clients/telegram-client.js';
+
+/**
+ * ParsedTweet as stored in JSONB payload columns
+ */
+export type SerializedTweet = Omit<ParsedTweet, 'publishedAt' | 'media'> & {
+  publishedAt: string;
+  media?: TweetMedia[];
+};
+
+/**
+ * Serialize a tweet for a JSONB column
+ */
+export function serializeTweet(tweet: ParsedTweet): string {
+  return JSON.stringify(tweet);
+}
+
+/**
+ * Rebuild a tweet from a JSONB payload
+ */
+export function deserializeTweet(payload: SerializedTweet): ParsedTweet {
+  return {
+    ...payload,
+    publishedAt: new Date(payload.publishedAt),
+    // Payloads stored before media support have no media field
+    media: payload.media ?? [],
+  };
+}
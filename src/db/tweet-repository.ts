@@ -1,4 +1,7 @@
+import type { PoolClient } from 'pg';
 import type { DatabaseService } from './database.js';
+import type { ParsedTweet } from '../clients/telegram-client.js';
+import { serializeTweet, deserializeTweet, type SerializedTweet } from './tweet-payload.js';
 import type { Logger } from 'pino';
 
 /**
@@ -6,6 +9,7 @@ import type { Logger } from 'pino';
  */
 export interface TweetRecord {
   id: string;
+  source: string | null;
   published_at: Date;
   created_at: Date;
 }
@@ -49,30 +53,32 @@ export class TweetRepository {
   }
 
   /**
-   * Mark a tweet as processed
+   * Mark a tweet as processed, keeping its content for later reconciliation
    * Returns true if inserted, false if already existed
    */
-  async markAsProcessed(tweetId: string, publishedAt: Date): Promise<boolean> {
+  async markAsProcessed(tweet: ParsedTweet, client?: PoolClient): Promise<boolean> {
+    const tweetId = tweet.id;
+    const source = tweet.source.id;
     const query = `
-      INSERT INTO tweets_processed (id, published_at)
-      VALUES ($1, $2)
+      INSERT INTO tweets_processed (id, published_at, source, payload)
+      VALUES ($1, $2, $3, $4)
       ON CONFLICT (id) DO NOTHING
       RETURNING id
     `;
 
     try {
-      const rows = await this.db.query<{ id: string }>(query, [tweetId, publishedAt]);
+      const rows = await this.db.query<{ id: string }>(query, [tweetId, tweet.publishedAt, source, serializeTweet(tweet)], client);
       const inserted = rows.length > 0;
       
       if (inserted) {
-        this.logger.debug({ tweetId }, 'Tweet marked as processed');
+        this.logger.debug({ tweetId, source }, 'Tweet marked as processed');
       } else {
-        this.logger.debug({ tweetId }, 'Tweet already processed (duplicate)');
+        this.logger.debug({ tweetId, source }, 'Tweet already processed (duplicate)');
       }
       
       return inserted;
     } catch (err) {
-      this.logger.error({ err, tweetId }, 'Failed to mark tweet as processed');
+      this.logger.error({ err, tweetId, source }, 'Failed to mark tweet as processed');
       throw err;
     }
   }
@@ -87,12 +93,22 @@ export class TweetRepository {
     return firstRow ? parseInt(firstRow.count, 10) : 0;
   }
 
+  /**
+   * Get count of processed tweets for a single source
+   */
+  async getCountBySource(source: string): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM tweets_processed WHERE source = $1';
+    const rows = await this.db.query<{ count: string }>(query, [source]);
+    const firstRow = rows[0];
+    return firstRow ? parseInt(firstRow.count, 10) : 0;
+  }
+
   /**
    * Get recently processed tweets
    */
   async getRecent(limit: number = 10): Promise<TweetRecord[]> {
     const query = `
-      SELECT id, published_at, created_at 
+      SELECT id, source, published_at, created_at 
       FROM tweets_processed 
       ORDER BY created_at DESC 
       LIMIT $1
@@ -100,6 +116,76 @@ export class TweetRepository {
     return this.db.query<TweetRecord>(query, [limit]);
   }
 
+  /**
+   * Get tweets of a source published since a date that are not deleted
+   * Rows without a stored payload are skipped since they cannot be compared
+   */
+  async getRecentPayloads(source: string, since: Date): Promise<ParsedTweet[]> {
+    const query = `
+      SELECT payload
+      FROM tweets_processed
+      WHERE source = $1
+        AND published_at >= $2
+        AND deleted_at IS NULL
+        AND payload IS NOT NULL
+      ORDER BY published_at ASC
+    `;
+    const rows = await this.db.query<{ payload: SerializedTweet }>(query, [source, since]);
+    return rows.map((row) => deserializeTweet(row.payload));
+  }
+
+  /**
+   * Get the id of the latest own tweet of a source published between two dates
+   * Retweets, replies to other accounts and rows stored before payloads were kept are ignored
+   */
+  async getLatestOwnIdBetween(source: string, after: Date, before: Date): Promise<string | null> {
+    const query = `
+      SELECT id
+      FROM tweets_processed
+      WHERE source = $1
+        AND published_at >= $2
+        AND published_at < $3
+        AND payload IS NOT NULL
+        AND NOT (payload ? 'retweetOf')
+        AND NOT (payload ? 'replyTo')
+      ORDER BY published_at DESC
+      LIMIT 1
+    `;
+    const rows = await this.db.query<{ id: string }>(query, [source, after, before]);
+    return rows[0]?.id ?? null;
+  }
+
+  /**
+   * Get the stored content of a tweet (null if unknown or stored before payloads were kept)
+   */
+  async getPayload(tweetId: string): Promise<ParsedTweet | null> {
+    const query = 'SELECT payload FROM tweets_processed WHERE id = $1 AND payload IS NOT NULL';
+    const rows = await this.db.query<{ payload: SerializedTweet }>(query, [tweetId]);
+    const firstRow = rows[0];
+    return firstRow ? deserializeTweet(firstRow.payload) : null;
+  }
+
+  /**
+   * Store the edited content of a tweet
+   */
+  async updatePayload(tweet: ParsedTweet): Promise<void> {
+    const query = `
+      UPDATE tweets_processed
+      SET payload = $2, edited_at = NOW()
+      WHERE id = $1
+    `;
+    await this.db.query(query, [tweet.id, serializeTweet(tweet)]);
+    this.logger.debug({ tweetId: tweet.id }, 'Tweet payload updated');
+  }
+
+  /**
+   * Mark a tweet as deleted at the source
+   */
+  async markDeleted(tweetId: string): Promise<void> {
+    await this.db.query('UPDATE tweets_processed SET deleted_at = NOW() WHERE id = $1', [tweetId]);
+    this.logger.debug({ tweetId }, 'Tweet marked as deleted');
+  }
+
   /**
    * Cleanup old records (optional maintenance)
    */
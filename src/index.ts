@@ -1,27 +1,53 @@
+import { parseArgs } from 'node:util';
 import cron from 'node-cron';
 import { loadConfig } from './config/index.js';
-import { createLogger, RSSParser } from './utils/index.js';
-import { DatabaseService, TweetRepository } from './db/index.js';
-import { NitterClient, TelegramClient, DiscordClient } from './clients/index.js';
-import { SocialRelayService } from './services/index.js';
+import { createLogger, RSSParser, FeedParser, registerPoolMetrics } from './utils/index.js';
+import { DatabaseService, Migrator, TweetRepository, DeliveryRepository, OutboxRepository } from './db/index.js';
+import { NitterClient, FeedClient, type DiscordClient, type Publisher } from './clients/index.js';
+import { NitterSourceReader, FeedSourceReader } from './sources/index.js';
+import {
+  SocialRelayService,
+  OutboxWorker,
+  ReconciliationService,
+  RelayScheduler,
+  AdminCommands,
+  TelegramAdminService,
+  DiscordAdminService,
+} from './services/index.js';
+import { HttpServer } from './server/index.js';
+import { runPreview } from './preview.js';
+import { createPublishers } from './publishers.js';
 
 /**
  * NEARM Social Nitter X Bot
  * 
- * Polls Nitter RSS feed and relays new tweets to Telegram and Discord
+ * Polls Nitter RSS feeds and relays new tweets to Telegram and Discord
+ * With --dry-run, runs a single cycle that prints what would be posted and exits
  */
 
 // Global state for graceful shutdown
 let isShuttingDown = false;
-let isProcessing = false;
-let scheduledTask: cron.ScheduledTask | null = null;
+let isReconciling = false;
+let reconcileTask: cron.ScheduledTask | null = null;
 let databaseService: DatabaseService | null = null;
 let discordClient: DiscordClient | null = null;
+let publishers: Publisher[] = [];
+let scheduler: RelayScheduler | null = null;
+let telegramAdmin: TelegramAdminService | null = null;
+let httpServer: HttpServer | null = null;
 
 async function main(): Promise<void> {
+  const { values: flags } = parseArgs({ options: { 'dry-run': { type: 'boolean', default: false } } });
+
   // Load and validate configuration
   const config = loadConfig();
-  
+
+  if (flags['dry-run']) {
+    // Nothing is sent or written; logs go to stderr so stdout holds only the previews
+    const ok = await runPreview(config, createLogger(config.log, 2), { sources: [], json: false });
+    process.exit(ok ? 0 : 1);
+  }
+
   // Initialize logger
   const logger = createLogger(config.log);
   logger.info({ nodeEnv: config.nodeEnv }, 'Starting NEARM Social Nitter X Bot');
@@ -35,15 +61,40 @@ async function main(): Promise<void> {
     }
     logger.info('Database connected');
 
+    // Bring the schema up to date before any repository touches it
+    if (config.database.autoMigrate) {
+      await new Migrator(databaseService, logger, config.nitter.sources[0]?.id).up();
+    }
+
     // Initialize repositories
     const tweetRepository = new TweetRepository(databaseService, logger);
+    const deliveryRepository = new DeliveryRepository(databaseService, logger);
+    const outboxRepository = new OutboxRepository(databaseService, logger);
     const tweetCount = await tweetRepository.getCount();
     logger.info({ processedTweets: tweetCount }, 'Tweet repository initialized');
 
+    for (const source of config.nitter.sources) {
+      const sourceCount = await tweetRepository.getCountBySource(source.id);
+      logger.info({
+        source: source.id,
+        type: source.type,
+        username: source.username || undefined,
+        url: source.url,
+        processedTweets: sourceCount,
+      }, 'Feed source configured');
+    }
+
     // Initialize clients
     const nitterClient = new NitterClient(config.nitter, config.retry, logger);
-    const telegramClient = new TelegramClient(config.telegram, logger);
-    discordClient = new DiscordClient(config.discord, logger);
+
+    // Destinations every new tweet is delivered to
+    const destinations = createPublishers(config, logger);
+    const { telegramClient } = destinations;
+    discordClient = destinations.discordClient;
+    publishers = destinations.publishers;
+    logger.info({
+      publishers: publishers.map(({ name, capabilities }) => ({ name, capabilities })),
+    }, 'Publishers configured');
 
     // Login to Discord
     await discordClient.login();
@@ -60,41 +111,138 @@ async function main(): Promise<void> {
       logger.warn('Nitter health check failed - continuing anyway');
     }
 
-    // Initialize RSS parser
+    // Initialize feed readers (Nitter for X accounts, generic RSS/Atom for other feeds)
     const rssParser = new RSSParser(logger);
+    const readers = {
+      nitter: new NitterSourceReader(nitterClient, rssParser),
+      feed: new FeedSourceReader(new FeedClient(config.retry, logger), new FeedParser(logger)),
+    };
 
     // Initialize relay service
     const relayService = new SocialRelayService(
       nitterClient,
-      telegramClient,
+      publishers,
       discordClient,
+      databaseService,
       tweetRepository,
-      rssParser,
+      deliveryRepository,
+      outboxRepository,
+      readers,
+      config.nitter.sources,
       logger
     );
 
-    // Run once immediately on startup
-    logger.info('Running initial processing cycle');
-    await runProcessingCycle(relayService, logger);
+    // Initialize outbox worker (delivers queued tweets, retries with backoff)
+    const worker = new OutboxWorker(
+      outboxRepository,
+      deliveryRepository,
+      publishers,
+      discordClient,
+      config.delivery,
+      logger
+    );
+    const outboxCounts = await outboxRepository.getCounts();
+    logger.info(outboxCounts, 'Outbox initialized');
 
-    // Schedule cron job
+    // Initialize scheduler (cron-driven poll cycles, pause/resume)
     // Default: Every 10 minutes, Monday-Friday, 09:00-20:59 (server time)
     // Cron format: "*/10 9-20 * * 1-5"
-    const cronExpression = config.polling.cronExpression;
-    
-    if (!cron.validate(cronExpression)) {
-      throw new Error(`Invalid cron expression: ${cronExpression}`);
+    const relayScheduler = new RelayScheduler(
+      relayService,
+      worker,
+      discordClient,
+      config.polling.cronExpression,
+      logger
+    );
+    scheduler = relayScheduler;
+
+    // Start HTTP server (liveness, readiness, status and metrics for the orchestrator)
+    if (config.http.enabled) {
+      const database = databaseService;
+      registerPoolMetrics(() => database.getPoolStats());
+      httpServer = new HttpServer(config.http, {
+        readiness: async () => {
+          // Fails the check so the orchestrator stops routing to an instance that is going away
+          if (isShuttingDown) {
+            return { accepting: false };
+          }
+          return relayService.healthCheck();
+        },
+        status: async () => ({
+          status: isShuttingDown ? 'shutting_down' : 'running',
+          paused: relayScheduler.isPaused(),
+          processing: relayScheduler.isProcessing(),
+          lastCycle: relayService.getLastCycle(),
+          nextRunAt: relayScheduler.getNextRunAt(),
+          consecutiveFailures: relayService.getConsecutiveFailures(),
+          sources: config.nitter.sources.map((source) => source.id),
+          publishers: relayService.getPublishers(),
+          nitter: relayService.getNitterInstances(),
+          outbox: await outboxRepository.getCounts().catch(() => null),
+          database: database.getPoolStats(),
+        }),
+      }, logger);
+      await httpServer.start();
+    }
+
+    // Run once immediately on startup (failures are alerted; the schedule retries)
+    logger.info('Running initial processing cycle');
+    await relayScheduler.runNow().catch(() => undefined);
+    relayScheduler.start();
+
+    // Admin commands for operators (Telegram and/or Discord, both opt-in)
+    const adminCommands = new AdminCommands(
+      relayScheduler,
+      relayService,
+      tweetRepository,
+      outboxRepository,
+      logger
+    );
+
+    if (config.telegram.adminUserIds.length > 0) {
+      telegramAdmin = new TelegramAdminService(config.telegram, adminCommands, logger);
+      telegramAdmin.start();
     }
 
-    scheduledTask = cron.schedule(cronExpression, async () => {
-      if (isShuttingDown) {
-        logger.debug('Shutdown in progress, skipping scheduled run');
-        return;
+    if (config.discord.adminRoleId) {
+      const discordAdmin = new DiscordAdminService(config.discord, discordClient, adminCommands, logger);
+      // A missing applications.commands scope should not keep the relay from running
+      await discordAdmin.start().catch((err) => {
+        logger.error({ err }, 'Failed to register Discord slash commands');
+      });
+    }
+
+    // Schedule edit/deletion reconciliation
+    if (config.reconcile.enabled) {
+      if (!cron.validate(config.reconcile.cronExpression)) {
+        throw new Error(`Invalid reconcile cron expression: ${config.reconcile.cronExpression}`);
       }
-      await runProcessingCycle(relayService, logger);
-    });
 
-    logger.info({ cronExpression }, 'Cron scheduler started');
+      const reconciliationService = new ReconciliationService(
+        nitterClient,
+        publishers,
+        tweetRepository,
+        deliveryRepository,
+        outboxRepository,
+        rssParser,
+        config.nitter.sources,
+        config.reconcile,
+        logger
+      );
+
+      reconcileTask = cron.schedule(config.reconcile.cronExpression, async () => {
+        if (isShuttingDown) {
+          return;
+        }
+        await runReconciliation(reconciliationService, logger);
+      });
+
+      logger.info({
+        cronExpression: config.reconcile.cronExpression,
+        windowHours: config.reconcile.windowHours,
+        deleteMode: config.reconcile.deleteMode,
+      }, 'Reconciliation scheduler started');
+    }
 
     // Set up graceful shutdown handlers
     setupShutdownHandlers(logger);
@@ -113,55 +261,34 @@ async function main(): Promise<void> {
 }
 
 /**
- * Run a single processing cycle with error handling
+ * Run a single reconciliation with error handling
  */
-async function runProcessingCycle(
-  relayService: SocialRelayService,
+async function runReconciliation(
+  reconciliationService: ReconciliationService,
   logger: ReturnType<typeof createLogger>
 ): Promise<void> {
-  if (isProcessing) {
-    logger.warn('Previous processing cycle still running, skipping');
+  if (isReconciling) {
+    logger.warn('Previous reconciliation still running, skipping');
     return;
   }
 
-  isProcessing = true;
-  
+  isReconciling = true;
+
   try {
-    const result = await relayService.process();
-    
-    logger.info({
-      totalFetched: result.totalFetched,
-      newTweets: result.newTweets,
-      telegramSuccess: result.telegramSuccess,
-      telegramFailed: result.telegramFailed,
-      discordSuccess: result.discordSuccess,
-      discordFailed: result.discordFailed,
-      errorCount: result.errors.length,
-    }, 'Processing cycle completed');
-
-    // Send alert if there were errors during processing
+    const result = await reconciliationService.reconcile();
+
     if (result.errors.length > 0 && discordClient) {
       const errorSummary = result.errors.slice(0, 5).join('\n• ');
       const moreErrors = result.errors.length > 5 ? `\n...and ${result.errors.length - 5} more` : '';
       await discordClient.sendAlert(
-        'Processing Errors',
-        `Encountered ${result.errors.length} error(s) during processing:\n\n• ${errorSummary}${moreErrors}`
+        'Reconciliation Errors',
+        `Encountered ${result.errors.length} error(s) while propagating edits/deletions:\n\n• ${errorSummary}${moreErrors}`
       );
     }
   } catch (err) {
-    logger.error({ err }, 'Processing cycle failed with unhandled error');
-    
-    // Send alert for unhandled errors
-    if (discordClient) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      await discordClient.sendAlert(
-        'Processing Cycle Failed',
-        `The bot encountered an unhandled error:\n\n\`\`\`\n${errorMessage}\n\`\`\``
-      );
-    }
-    // Don't crash - let cron retry on next schedule
+    logger.error({ err }, 'Reconciliation failed with unhandled error');
   } finally {
-    isProcessing = false;
+    isReconciling = false;
   }
 }
 
@@ -203,30 +330,30 @@ function setupShutdownHandlers(logger: ReturnType<typeof createLogger>): void {
 async function cleanup(logger: ReturnType<typeof createLogger>): Promise<void> {
   logger.info('Cleaning up resources...');
 
-  // Stop cron scheduler
-  if (scheduledTask) {
-    scheduledTask.stop();
-    logger.info('Cron scheduler stopped');
+  // Stop taking admin commands
+  if (telegramAdmin) {
+    telegramAdmin.stop();
   }
 
-  // Wait for current processing to complete (with timeout)
-  if (isProcessing) {
-    logger.info('Waiting for current processing to complete...');
-    const timeout = 10000;
-    const start = Date.now();
-    
-    while (isProcessing && Date.now() - start < timeout) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
-    
-    if (isProcessing) {
-      logger.warn('Processing did not complete within timeout');
-    }
+  if (reconcileTask) {
+    reconcileTask.stop();
   }
 
-  // Close Discord client
-  if (discordClient) {
-    await discordClient.close();
+  // Stop cron scheduler, wait for the current cycle and stop the outbox worker
+  if (scheduler) {
+    await scheduler.stop();
+  }
+
+  // Stop HTTP server
+  if (httpServer) {
+    await httpServer.close();
+  }
+
+  // Close publishers (this also logs out the Discord client used for alerts)
+  for (const publisher of publishers) {
+    await publisher.close().catch((err) => {
+      logger.error({ err, publisher: publisher.name }, 'Failed to close publisher');
+    });
   }
 
   // Close database pool
@@ -0,0 +1,101 @@
+import type { AppConfig } from './config/index.js';
+import type { Logger } from './utils/logger.js';
+import { RSSParser, FeedParser } from './utils/index.js';
+import { DatabaseService, TweetRepository, DeliveryRepository, OutboxRepository } from './db/index.js';
+import { NitterClient, FeedClient, TelegramClient, DiscordClient, type ParsedTweet } from './clients/index.js';
+import { NitterSourceReader, FeedSourceReader } from './sources/index.js';
+import { SocialRelayService } from './services/index.js';
+
+/**
+ * Options of a preview run
+ */
+export interface PreviewOptions {
+  /** Only preview these source ids (all sources when empty) */
+  sources: string[];
+  /** Print the previews as JSON lines instead of readable text */
+  json: boolean;
+}
+
+/**
+ * Run one poll cycle as a dry run and print what would be posted
+ *
+ * Every source is fetched, parsed, filtered and deduplicated against tweets_processed
+ * exactly like a real cycle, then the Telegram HTML and Discord payload of each new
+ * tweet is printed. Nothing is sent and nothing is written to the database.
+ * @returns Whether every source could be fetched
+ */
+export async function runPreview(config: AppConfig, logger: Logger, options: PreviewOptions): Promise<boolean> {
+  const unknown = options.sources.filter((id) => !config.nitter.sources.some((source) => source.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown source(s): ${unknown.join(', ')}`);
+  }
+
+  const sources = options.sources.length > 0
+    ? config.nitter.sources.filter((source) => options.sources.includes(source.id))
+    : config.nitter.sources;
+
+  const db = new DatabaseService(config.database, logger);
+  const nitterClient = new NitterClient(config.nitter, config.retry, logger);
+  const telegramClient = new TelegramClient(config.telegram, config.template, logger);
+  // Never logged in: it only renders payloads
+  const discordClient = new DiscordClient(config.discord, config.template, logger);
+
+  const previews: { tweet: ParsedTweet; action: 'queue' | 'skip' }[] = [];
+
+  try {
+    const relayService = new SocialRelayService(
+      nitterClient,
+      [telegramClient, discordClient],
+      discordClient,
+      db,
+      new TweetRepository(db, logger),
+      new DeliveryRepository(db, logger),
+      new OutboxRepository(db, logger),
+      {
+        nitter: new NitterSourceReader(nitterClient, new RSSParser(logger)),
+        feed: new FeedSourceReader(new FeedClient(config.retry, logger), new FeedParser(logger)),
+      },
+      sources,
+      logger,
+      (tweet, action) => previews.push({ tweet, action })
+    );
+
+    const result = await relayService.process();
+
+    for (const { tweet, action } of previews) {
+      const telegram = action === 'queue' ? telegramClient.preview(tweet) : undefined;
+      const discord = action === 'queue' ? discordClient.preview(tweet) : undefined;
+
+      if (options.json) {
+        console.log(JSON.stringify({ source: tweet.source.id, tweetId: tweet.id, action, link: tweet.link, telegram, discord }));
+        continue;
+      }
+
+      console.log(`\n=== [${tweet.source.id}] ${tweet.id} (${tweet.publishedAt.toISOString()}) ${tweet.link}`);
+      if (!telegram || !discord) {
+        console.log('Would be recorded as skipped (not sent)');
+        continue;
+      }
+      if (tweet.inReplyToId) {
+        console.log(`Thread continuation of ${tweet.inReplyToId}`);
+      }
+      console.log(`--- Telegram (${telegram.media.length === 0 ? 'text' : telegram.asCaption ? 'caption' : 'text, then media'}, ${telegram.media.length} media)`);
+      console.log(telegram.html);
+      console.log(`--- Discord (${config.discord.messageFormat})`);
+      console.log(JSON.stringify(discord, null, 2));
+    }
+
+    const queued = previews.filter(({ action }) => action === 'queue').length;
+    if (!options.json) {
+      console.log(`\n${queued} tweet(s) would be sent, ${previews.length - queued} recorded as skipped, ${result.totalFetched} fetched`);
+      for (const error of result.errors) {
+        console.log(`Error: ${error}`);
+      }
+    }
+
+    return result.errors.length === 0;
+  } finally {
+    await discordClient.close();
+    await db.close();
+  }
+}
@@ -0,0 +1,37 @@
+import type { AppConfig } from './config/index.js';
+import type { Logger } from './utils/logger.js';
+import { TelegramClient, DiscordClient, MastodonClient, BlueskyClient, MatrixClient, SlackClient, WebhookClient, type Publisher } from './clients/index.js';
+
+/**
+ * Configured destinations
+ */
+export interface Publishers {
+  telegramClient: TelegramClient;
+  /** Also sends the operator alerts; not logged in yet */
+  discordClient: DiscordClient;
+  /** Every destination a new tweet is delivered to, Telegram and Discord first */
+  publishers: Publisher[];
+}
+
+/**
+ * Create the publisher of every configured destination
+ * The bot and the CLI share it so outbox messages always use the same destination names
+ */
+export function createPublishers(config: AppConfig, logger: Logger): Publishers {
+  const telegramClient = new TelegramClient(config.telegram, config.template, logger);
+  const discordClient = new DiscordClient(config.discord, config.template, logger);
+
+  return {
+    telegramClient,
+    discordClient,
+    publishers: [
+      telegramClient,
+      discordClient,
+      ...(config.mastodon.instanceUrl ? [new MastodonClient(config.mastodon, config.template, logger)] : []),
+      ...(config.bluesky.identifier ? [new BlueskyClient(config.bluesky, config.template, logger)] : []),
+      ...(config.matrix.homeserverUrl ? [new MatrixClient(config.matrix, config.template, logger)] : []),
+      ...(config.slack.webhookUrl || config.slack.botToken ? [new SlackClient(config.slack, config.template, logger)] : []),
+      ...config.webhooks.endpoints.map((endpoint) => new WebhookClient(endpoint, config.webhooks.timeoutMs, logger)),
+    ],
+  };
+}
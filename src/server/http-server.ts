@@ -0,0 +1,161 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { HttpConfig } from '../config/types.js';
+import type { Logger } from '../utils/logger.js';
+import { metricsRegistry } from '../utils/metrics.js';
+
+/**
+ * Checks and snapshots exposed over HTTP
+ */
+export interface HttpServerHandlers {
+  /** Dependency checks for /readyz; the bot is ready when every check passes */
+  readiness: () => Promise<Record<string, boolean>>;
+  /** JSON snapshot for /status */
+  status: () => Promise<unknown>;
+}
+
+/**
+ * Readiness checks slower than this count as failed
+ */
+const READINESS_TIMEOUT_MS = 5000;
+
+/**
+ * HttpServer - Embedded HTTP server for orchestrator probes
+ * GET /healthz (liveness), GET /readyz (dependency checks), GET /status (JSON status),
+ * GET /metrics (Prometheus)
+ */
+export class HttpServer {
+  private config: HttpConfig;
+  private handlers: HttpServerHandlers;
+  private logger: Logger;
+  private server: Server;
+  private startedAt = new Date();
+
+  constructor(config: HttpConfig, handlers: HttpServerHandlers, logger: Logger) {
+    this.config = config;
+    this.handlers = handlers;
+    this.logger = logger.child({ component: 'HttpServer' });
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        this.logger.error({ err, url: req.url }, 'Request failed');
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal server error' });
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, this.config.host, () => {
+        this.server.off('error', reject);
+        this.logger.info({ host: this.config.host, port: this.config.port }, 'HTTP server listening');
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting connections and close idle ones
+   */
+  close(): Promise<void> {
+    if (!this.server.listening) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      this.server.close(() => {
+        this.logger.info('HTTP server closed');
+        resolve();
+      });
+      this.server.closeIdleConnections();
+    });
+  }
+
+  /**
+   * Route a request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    switch (path) {
+      case '/healthz':
+        this.sendJson(res, 200, {
+          status: 'ok',
+          uptimeSeconds: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+        });
+        return;
+
+      case '/readyz': {
+        const checks = await this.runReadinessChecks();
+        const ready = Object.values(checks).every(Boolean);
+        this.sendJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'not_ready', checks });
+        return;
+      }
+
+      case '/status':
+        this.sendJson(res, 200, await this.handlers.status());
+        return;
+
+      case '/metrics': {
+        const body = await metricsRegistry.metrics();
+        res.writeHead(200, {
+          'Content-Type': metricsRegistry.contentType,
+          'Content-Length': Buffer.byteLength(body),
+        });
+        res.end(body);
+        return;
+      }
+
+      default:
+        this.sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  /**
+   * Run the readiness checks, failing them all if they take too long
+   */
+  private async runReadinessChecks(): Promise<Record<string, boolean>> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), READINESS_TIMEOUT_MS);
+    });
+
+    try {
+      const checks = await Promise.race([this.handlers.readiness(), timeout]);
+      if (checks === null) {
+        this.logger.warn({ timeoutMs: READINESS_TIMEOUT_MS }, 'Readiness checks timed out');
+        return { timeout: false };
+      }
+      return checks;
+    } catch (err) {
+      this.logger.error({ err }, 'Readiness checks failed');
+      return { error: false };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(payload),
+      'Cache-Control': 'no-store',
+    });
+    res.end(payload);
+  }
+}
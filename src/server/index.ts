@@ -0,0 +1 @@
+export { HttpServer, type HttpServerHandlers } from './http-server.js';
@@ -0,0 +1,186 @@
+import type { TweetRepository } from '../db/tweet-repository.js';
+import type { OutboxRepository } from '../db/outbox-repository.js';
+import type { SocialRelayService } from './social-relay-service.js';
+import type { RelayScheduler } from './relay-scheduler.js';
+import type { Logger } from '../utils/logger.js';
+
+/** X status ids, or `<sourceId>:<hash>` for feed posts */
+const TWEET_ID_PATTERN = /^(\d+|[\w-]+:[0-9a-f]+)$/;
+const MAX_RECENT = 25;
+
+/**
+ * Reply to an admin command, rendered by each chat interface (plain text, embed)
+ */
+export interface AdminReply {
+  title: string;
+  lines: string[];
+  /** The command failed or was rejected */
+  error?: boolean;
+}
+
+/**
+ * AdminCommands - Operator commands shared by the chat admin interfaces
+ * Each command acts on the live scheduler/relay service and returns a reply
+ */
+export class AdminCommands {
+  private scheduler: RelayScheduler;
+  private relayService: SocialRelayService;
+  private tweetRepository: TweetRepository;
+  private outboxRepository: OutboxRepository;
+  private logger: Logger;
+
+  constructor(
+    scheduler: RelayScheduler,
+    relayService: SocialRelayService,
+    tweetRepository: TweetRepository,
+    outboxRepository: OutboxRepository,
+    logger: Logger
+  ) {
+    this.scheduler = scheduler;
+    this.relayService = relayService;
+    this.tweetRepository = tweetRepository;
+    this.outboxRepository = outboxRepository;
+    this.logger = logger.child({ component: 'AdminCommands' });
+  }
+
+  /**
+   * Scheduler state, last cycle and outbox counts
+   */
+  async status(): Promise<AdminReply> {
+    const lastCycle = this.relayService.getLastCycle();
+    const nextRunAt = this.scheduler.getNextRunAt();
+    const outbox = await this.outboxRepository.getCounts();
+
+    const lines = [
+      `State: ${this.scheduler.isPaused() ? 'paused' : 'running'}${this.scheduler.isProcessing() ? ' (cycle in progress)' : ''}`,
+      lastCycle
+        ? `Last cycle: ${lastCycle.completedAt.toISOString()} - fetched ${lastCycle.result.totalFetched}, new ${lastCycle.result.newTweets}, errors ${lastCycle.result.errors.length}, served by ${[...new Set(Object.values(lastCycle.result.servedBy))].join(', ') || '-'}`
+        : 'Last cycle: none yet',
+      `Next run: ${nextRunAt ? nextRunAt.toISOString() : '-'}`,
+      `Consecutive failures: ${this.relayService.getConsecutiveFailures()}`,
+      `Outbox: ${outbox.pending} pending, ${outbox.dead} dead-lettered`,
+      ...this.relayService.getNitterInstances().map((instance) =>
+        `Nitter ${instance.url}: ${instance.state}, score ${instance.score}${instance.lastError && instance.state !== 'closed' ? ` (${instance.lastError})` : ''}`),
+    ];
+    return { title: 'Relay status', lines };
+  }
+
+  /**
+   * Health of Nitter, every publisher and the database
+   */
+  async health(): Promise<AdminReply> {
+    const checks = await this.relayService.healthCheck();
+    const healthy = Object.values(checks).every(Boolean);
+
+    return {
+      title: healthy ? 'All systems healthy' : 'Degraded',
+      lines: Object.entries(checks).map(([name, ok]) => `${ok ? '✅' : '❌'} ${name}`),
+      error: !healthy,
+    };
+  }
+
+  /**
+   * Most recently processed tweets
+   */
+  async recent(limitArg?: string): Promise<AdminReply> {
+    const parsed = limitArg ? parseInt(limitArg, 10) : 10;
+    const limit = Math.min(Math.max(isNaN(parsed) ? 10 : parsed, 1), MAX_RECENT);
+
+    const tweets = await this.tweetRepository.getRecent(limit);
+    if (tweets.length === 0) {
+      return { title: 'Recent tweets', lines: ['No tweets processed yet.'] };
+    }
+
+    return {
+      title: 'Recent tweets',
+      lines: tweets.map((tweet) => `${tweet.id} [${tweet.source ?? '-'}] ${tweet.published_at.toISOString()}`),
+    };
+  }
+
+  /**
+   * Pause polling and delivery
+   */
+  async pause(actor: string): Promise<AdminReply> {
+    if (this.scheduler.isPaused()) {
+      return { title: 'Already paused', lines: [] };
+    }
+    await this.scheduler.pause();
+    this.logger.info({ actor }, 'Paused by operator');
+    return { title: 'Paused', lines: ['Scheduled cycles and outbox delivery are suspended until resumed.'] };
+  }
+
+  /**
+   * Resume polling and delivery
+   */
+  resume(actor: string): AdminReply {
+    if (!this.scheduler.isPaused()) {
+      return { title: 'Not paused', lines: [] };
+    }
+    this.scheduler.resume();
+    this.logger.info({ actor }, 'Resumed by operator');
+    return { title: 'Resumed', lines: [] };
+  }
+
+  /**
+   * Run a poll cycle right away
+   */
+  async runNow(actor: string): Promise<AdminReply> {
+    this.logger.info({ actor }, 'Cycle triggered by operator');
+
+    try {
+      const cycle = await this.scheduler.runNow();
+      if (!cycle) {
+        return { title: 'A cycle is already running', lines: [], error: true };
+      }
+
+      const { result, drain } = cycle;
+      return {
+        title: 'Cycle completed',
+        lines: [
+          `Fetched ${result.totalFetched}, new ${result.newTweets}, errors ${result.errors.length}`,
+          ...Object.entries(drain.sent).map(([name, sent]) => `${name}: ${sent} sent, ${drain.failed[name] ?? 0} failed`),
+          ...result.errors.slice(0, 5).map((error) => `- ${error}`),
+        ],
+        error: result.errors.length > 0,
+      };
+    } catch (err) {
+      return { title: 'Cycle failed', lines: [err instanceof Error ? err.message : String(err)], error: true };
+    }
+  }
+
+  /**
+   * Queue a processed tweet for delivery again
+   */
+  async resend(actor: string, tweetId?: string): Promise<AdminReply> {
+    if (!tweetId || !TWEET_ID_PATTERN.test(tweetId)) {
+      return { title: 'Invalid tweet id', lines: ['Usage: resend <tweetId>'], error: true };
+    }
+
+    const queued = await this.relayService.resend(tweetId);
+    if (!queued) {
+      return { title: 'Tweet not found', lines: [`Tweet ${tweetId} is unknown or has no stored content.`], error: true };
+    }
+
+    this.logger.info({ actor, tweetId }, 'Resend requested by operator');
+    return {
+      title: 'Tweet queued',
+      lines: [`Tweet ${tweetId} queued for delivery${this.scheduler.isPaused() ? ' (delivery is paused)' : ''}.`],
+    };
+  }
+
+  /**
+   * Cancel the queued deliveries of a tweet
+   */
+  async skip(actor: string, tweetId?: string): Promise<AdminReply> {
+    if (!tweetId || !TWEET_ID_PATTERN.test(tweetId)) {
+      return { title: 'Invalid tweet id', lines: ['Usage: skip <tweetId>'], error: true };
+    }
+
+    const cancelled = await this.relayService.skip(tweetId);
+    this.logger.info({ actor, tweetId, cancelled }, 'Skip requested by operator');
+
+    return cancelled.length > 0
+      ? { title: 'Tweet skipped', lines: [`Tweet ${tweetId} skipped for ${cancelled.join(', ')}.`] }
+      : { title: 'Nothing queued', lines: [`Tweet ${tweetId} has nothing queued.`] };
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  EmbedBuilder,
+  InteractionContextType,
+  MessageFlags,
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import type { DiscordClient } from '../clients/discord-client.js';
+import type { DiscordConfig } from '../config/types.js';
+import type { AdminCommands, AdminReply } from './admin-commands.js';
+import type { Logger } from '../utils/logger.js';
+
+const COLOR_OK = 0x2ecc71;
+const COLOR_ERROR = 0xe74c3c;
+
+/**
+ * DiscordAdminService - Admin slash commands over Discord (/relay ...)
+ * Commands are registered on the guild of the relay channel and only answered
+ * for members holding the configured admin role; replies are ephemeral embeds
+ */
+export class DiscordAdminService {
+  private discordClient: DiscordClient;
+  private adminRoleId: string;
+  private commands: AdminCommands;
+  private logger: Logger;
+
+  constructor(config: DiscordConfig, discordClient: DiscordClient, commands: AdminCommands, logger: Logger) {
+    this.discordClient = discordClient;
+    this.adminRoleId = config.adminRoleId ?? '';
+    this.commands = commands;
+    this.logger = logger.child({ component: 'DiscordAdminService' });
+  }
+
+  /**
+   * Register the /relay command and start answering it
+   */
+  async start(): Promise<void> {
+    const relay = new SlashCommandBuilder()
+      .setName('relay')
+      .setDescription('Operate the X relay bot')
+      .setContexts(InteractionContextType.Guild)
+      .addSubcommand((sub) => sub.setName('status').setDescription('Scheduler state, last cycle and outbox'))
+      .addSubcommand((sub) => sub
+        .setName('recent')
+        .setDescription('Recently processed tweets')
+        .addIntegerOption((option) => option
+          .setName('count')
+          .setDescription('Number of tweets (default 10)')
+          .setMinValue(1)
+          .setMaxValue(25)))
+      .addSubcommand((sub) => sub.setName('pause').setDescription('Suspend polling and delivery'))
+      .addSubcommand((sub) => sub.setName('resume').setDescription('Resume polling and delivery'))
+      .addSubcommand((sub) => sub
+        .setName('resend')
+        .setDescription('Deliver a processed tweet again')
+        .addStringOption((option) => option.setName('id').setDescription('Tweet id').setRequired(true)))
+      .addSubcommand((sub) => sub.setName('health').setDescription('Check Nitter, Telegram, Discord and the database'));
+
+    await this.discordClient.registerCommands([relay.toJSON()], (interaction) => this.handle(interaction));
+    this.logger.info({ adminRoleId: this.adminRoleId }, 'Discord admin commands enabled');
+  }
+
+  /**
+   * Answer a /relay interaction
+   */
+  private async handle(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (interaction.commandName !== 'relay') {
+      return;
+    }
+
+    if (!this.isAdmin(interaction)) {
+      this.logger.warn({ userId: interaction.user.id, userTag: interaction.user.tag }, 'Ignoring command from non-admin member');
+      await interaction.reply({
+        embeds: [this.toEmbed({ title: 'Not allowed', lines: ['You need the relay admin role to use this command.'], error: true })],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // Health checks and database queries can exceed the 3s interaction deadline
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const actor = `discord:${interaction.user.id}`;
+    let reply: AdminReply;
+
+    try {
+      switch (interaction.options.getSubcommand()) {
+        case 'status':
+          reply = await this.commands.status();
+          break;
+        case 'recent':
+          reply = await this.commands.recent(String(interaction.options.getInteger('count') ?? ''));
+          break;
+        case 'pause':
+          reply = await this.commands.pause(actor);
+          break;
+        case 'resume':
+          reply = this.commands.resume(actor);
+          break;
+        case 'resend':
+          reply = await this.commands.resend(actor, interaction.options.getString('id', true).trim());
+          break;
+        case 'health':
+          reply = await this.commands.health();
+          break;
+        default:
+          reply = { title: 'Unknown command', lines: [], error: true };
+      }
+    } catch (err) {
+      this.logger.error({ err, subcommand: interaction.options.getSubcommand(false) }, 'Admin command failed');
+      reply = { title: 'Command failed', lines: [err instanceof Error ? err.message : String(err)], error: true };
+    }
+
+    await interaction.editReply({ embeds: [this.toEmbed(reply)] });
+  }
+
+  /**
+   * Check that the member holds the admin role
+   */
+  private isAdmin(interaction: ChatInputCommandInteraction): boolean {
+    const roles = interaction.member?.roles;
+    if (!roles) {
+      return false;
+    }
+    // Uncached members come with the raw role id array
+    return Array.isArray(roles) ? roles.includes(this.adminRoleId) : roles.cache.has(this.adminRoleId);
+  }
+
+  /**
+   * Render a reply as an embed
+   */
+  private toEmbed(reply: AdminReply): EmbedBuilder {
+    const embed = new EmbedBuilder()
+      .setTitle(reply.title)
+      .setColor(reply.error ? COLOR_ERROR : COLOR_OK)
+      .setTimestamp();
+
+    if (reply.lines.length > 0) {
+      embed.setDescription(reply.lines.join('\n').substring(0, 4096));
+    }
+    return embed;
+  }
+}
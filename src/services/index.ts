@@ -1 +1,7 @@
-export { SocialRelayService, type TweetProcessingResult, type PollingResult, type ProcessingResult } from './social-relay.js';
+export { SocialRelayService, type ProcessingResult, type LastCycle, type DryRunHandler, type BackfillOptions, type BackfillResult } from './social-relay-service.js';
+export { OutboxWorker, type DrainResult } from './outbox-worker.js';
+export { ReconciliationService, type ReconciliationResult } from './reconciliation-service.js';
+export { RelayScheduler, type CycleResult } from './relay-scheduler.js';
+export { AdminCommands, type AdminReply } from './admin-commands.js';
+export { TelegramAdminService } from './telegram-admin-service.js';
+export { DiscordAdminService } from './discord-admin-service.js';
@@ -0,0 +1,316 @@
+import type { SendResult } from '../clients/telegram-client.js';
+import type { DiscordClient } from '../clients/discord-client.js';
+import type { Publisher } from '../clients/publisher.js';
+import type { OutboxRepository, OutboxMessage } from '../db/outbox-repository.js';
+import type { DeliveryRepository, DeliveryDestination } from '../db/delivery-repository.js';
+import type { DeliveryConfig } from '../config/types.js';
+import type { Logger } from '../utils/logger.js';
+import { tweetsSentTotal, tweetsFailedTotal, sendDuration } from '../utils/metrics.js';
+
+/**
+ * Result of a single outbox drain
+ */
+export interface DrainResult {
+  attempted: number;
+  /** Successful sends by publisher name */
+  sent: Record<string, number>;
+  /** Failed sends by publisher name */
+  failed: Record<string, number>;
+  deadLettered: number;
+  errors: string[];
+}
+
+/**
+ * OutboxWorker - Delivers queued messages to their publisher
+ * Failed messages are retried with exponential backoff and dead-lettered
+ * after the configured number of attempts
+ */
+export class OutboxWorker {
+  private outboxRepository: OutboxRepository;
+  private deliveryRepository: DeliveryRepository;
+  private publishers: Map<string, Publisher>;
+  private discordClient: DiscordClient;
+  private config: DeliveryConfig;
+  private logger: Logger;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<DrainResult> | null = null;
+
+  constructor(
+    outboxRepository: OutboxRepository,
+    deliveryRepository: DeliveryRepository,
+    publishers: Publisher[],
+    discordClient: DiscordClient,
+    config: DeliveryConfig,
+    logger: Logger
+  ) {
+    this.outboxRepository = outboxRepository;
+    this.deliveryRepository = deliveryRepository;
+    this.publishers = new Map(publishers.map((publisher) => [publisher.name, publisher]));
+    // Dead-letter alerts always go to the Discord alert channel
+    this.discordClient = discordClient;
+    this.config = config;
+    this.logger = logger.child({ component: 'OutboxWorker' });
+  }
+
+  /**
+   * Start draining the outbox on an interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.drain().catch((err) => {
+        this.logger.error({ err }, 'Outbox drain failed');
+      });
+    }, this.config.workerIntervalMs);
+
+    this.logger.info({ intervalMs: this.config.workerIntervalMs }, 'Outbox worker started');
+  }
+
+  /**
+   * Stop the interval and wait for an in-flight drain to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info('Outbox worker stopped');
+    }
+
+    if (this.draining) {
+      await this.draining.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Deliver all due messages
+   * Concurrent calls share the drain that is already running
+   */
+  drain(): Promise<DrainResult> {
+    if (!this.draining) {
+      this.draining = this.runDrain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Check whether a drain is currently running
+   */
+  isDraining(): boolean {
+    return this.draining !== null;
+  }
+
+  /**
+   * Drain due messages once
+   */
+  private async runDrain(): Promise<DrainResult> {
+    const result: DrainResult = {
+      attempted: 0,
+      sent: Object.fromEntries([...this.publishers.keys()].map((name) => [name, 0])),
+      failed: Object.fromEntries([...this.publishers.keys()].map((name) => [name, 0])),
+      deadLettered: 0,
+      errors: [],
+    };
+
+    const messages = await this.outboxRepository.getDue(this.config.batchSize);
+    if (messages.length === 0) {
+      return result;
+    }
+
+    this.logger.debug({ count: messages.length }, 'Draining outbox');
+
+    // A destination that fails once is left alone for the rest of this drain,
+    // so an outage costs one attempt per drain instead of one per message
+    const backedOff = new Set<DeliveryDestination>();
+
+    for (const message of messages) {
+      if (backedOff.has(message.destination)) {
+        continue;
+      }
+
+      const replyTo = await this.resolveReplyTarget(message);
+      if (replyTo === false) {
+        // The thread parent has not gone out yet; keep the message due so it is sent after it
+        this.logger.debug({ tweetId: message.tweetId, parentId: message.tweet.inReplyToId, destination: message.destination }, 'Waiting for thread parent');
+        continue;
+      }
+
+      if (result.attempted > 0) {
+        await this.sleep(this.config.sendIntervalMs);
+      }
+      result.attempted++;
+
+      const sendResult = await this.send(message, replyTo);
+
+      if (sendResult.success) {
+        this.countSuccess(message.destination, result);
+        await this.handleSuccess(message, sendResult);
+      } else {
+        this.countFailure(message.destination, result);
+        backedOff.add(message.destination);
+
+        const deadLettered = await this.handleFailure(message, sendResult.error ?? 'Unknown error', sendResult.retryAfterMs);
+        if (deadLettered) {
+          result.deadLettered++;
+          result.errors.push(
+            `${message.destination} gave up on tweet ${message.tweetId} after ${message.attempts + 1} attempts: ${sendResult.error ?? 'Unknown error'}`
+          );
+        }
+      }
+    }
+
+    this.logger.info({ ...result, errors: result.errors.length }, 'Outbox drain completed');
+
+    if (result.deadLettered > 0) {
+      await this.sendDeadLetterAlert(result.errors);
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the message a thread continuation should reply to on its destination
+   * Returns false while the parent is still queued, undefined to send without a reply
+   */
+  private async resolveReplyTarget(message: OutboxMessage): Promise<string | undefined | false> {
+    const parentId = message.tweet.inReplyToId;
+    if (!parentId) {
+      return undefined;
+    }
+
+    try {
+      const deliveries = await this.deliveryRepository.getByTweet(parentId);
+      const parent = deliveries.find((delivery) => delivery.destination === message.destination);
+
+      if (parent?.status === 'pending') {
+        return false;
+      }
+      return parent?.status === 'delivered' ? parent.platform_message_id ?? undefined : undefined;
+    } catch (err) {
+      this.logger.warn({ err, tweetId: message.tweetId, parentId }, 'Failed to look up thread parent, sending without reply');
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a tweet to a single destination, never throwing
+   * Messages for a publisher that is no longer configured fail (and end up dead-lettered)
+   */
+  private async send(message: OutboxMessage, replyToMessageId?: string): Promise<SendResult> {
+    const { tweet, destination } = message;
+    const publisher = this.publishers.get(destination);
+    if (!publisher) {
+      return { success: false, error: `No publisher configured for ${destination}` };
+    }
+
+    const endTimer = sendDuration.startTimer({ destination });
+    let result: SendResult;
+
+    try {
+      result = await publisher.send(tweet, replyToMessageId, message.id);
+    } catch (err) {
+      this.logger.error({ err, tweetId: tweet.id, destination }, 'Send threw exception');
+      result = { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+
+    endTimer({ outcome: result.success ? 'success' : 'error' });
+    return result;
+  }
+
+  /**
+   * Remove a delivered message and record it in the ledger
+   */
+  private async handleSuccess(message: OutboxMessage, sendResult: SendResult): Promise<void> {
+    try {
+      await this.deliveryRepository.markDelivered(message.tweetId, message.destination, sendResult.messageId ?? null);
+      await this.outboxRepository.markSent(message.id);
+    } catch (err) {
+      // Note: the message was posted; if it is still queued it may be posted again
+      this.logger.error({ err, tweetId: message.tweetId, destination: message.destination }, 'Failed to record delivery');
+    }
+  }
+
+  /**
+   * Schedule a retry, or dead-letter the message when no attempts remain
+   * The retry waits at least as long as the platform asked for (Retry-After)
+   * Returns true if the message was dead-lettered
+   */
+  private async handleFailure(message: OutboxMessage, error: string, retryAfterMs?: number): Promise<boolean> {
+    const attempts = message.attempts + 1;
+    const final = attempts >= this.config.maxAttempts;
+
+    try {
+      if (final) {
+        await this.outboxRepository.moveToDeadLetter(message.id, error);
+      } else {
+        const nextAttemptAt = new Date(Date.now() + Math.max(this.getBackoffDelay(attempts), retryAfterMs ?? 0));
+        await this.outboxRepository.markFailed(message.id, error, nextAttemptAt);
+        this.logger.warn({
+          tweetId: message.tweetId,
+          destination: message.destination,
+          attempts,
+          retryAfterMs,
+          nextAttemptAt,
+        }, 'Delivery failed, retry scheduled');
+      }
+
+      await this.deliveryRepository.markFailed(message.tweetId, message.destination, error, final);
+    } catch (err) {
+      this.logger.error({ err, tweetId: message.tweetId, destination: message.destination }, 'Failed to record delivery failure');
+    }
+
+    return final;
+  }
+
+  /**
+   * Exponential backoff: base * 2^(attempts - 1), capped at the configured maximum
+   */
+  private getBackoffDelay(attempts: number): number {
+    const delay = this.config.backoffBaseMs * Math.pow(2, attempts - 1);
+    return Math.min(delay, this.config.backoffMaxMs);
+  }
+
+  /**
+   * Count a successful send
+   */
+  private countSuccess(destination: DeliveryDestination, result: DrainResult): void {
+    tweetsSentTotal.inc({ destination });
+    result.sent[destination] = (result.sent[destination] ?? 0) + 1;
+  }
+
+  /**
+   * Count a failed send
+   */
+  private countFailure(destination: DeliveryDestination, result: DrainResult): void {
+    tweetsFailedTotal.inc({ destination });
+    result.failed[destination] = (result.failed[destination] ?? 0) + 1;
+  }
+
+  /**
+   * Alert when messages were moved to the dead-letter table
+   */
+  private async sendDeadLetterAlert(errors: string[]): Promise<void> {
+    const summary = errors.slice(0, 5).join('\n• ');
+    const more = errors.length > 5 ? `\n...and ${errors.length - 5} more` : '';
+
+    try {
+      await this.discordClient.sendAlert(
+        'Messages Dead-Lettered',
+        `${errors.length} message(s) failed ${this.config.maxAttempts} times and were moved to outbox_dead_letters:\n\n• ${summary}${more}\n\nRequeue them with \`npm run outbox:requeue\`.`
+      );
+    } catch (err) {
+      this.logger.error({ err }, 'Failed to send dead-letter alert');
+    }
+  }
+
+  /**
+   * Sleep utility
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
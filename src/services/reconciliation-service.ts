@@ -0,0 +1,225 @@
+import type { NitterClient } from '../clients/nitter-client.js';
+import type { ParsedTweet, SendResult } from '../clients/telegram-client.js';
+import type { Publisher } from '../clients/publisher.js';
+import type { TweetRepository } from '../db/tweet-repository.js';
+import type { DeliveryRepository, DeliveryRecord } from '../db/delivery-repository.js';
+import type { OutboxRepository } from '../db/outbox-repository.js';
+import type { SourceConfig, ReconcileConfig } from '../config/types.js';
+import type { RSSParser } from '../utils/rss-parser.js';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * Result of a reconciliation run
+ */
+export interface ReconciliationResult {
+  checked: number;
+  edited: number;
+  deleted: number;
+  errors: string[];
+}
+
+/**
+ * ReconciliationService - Propagates edits and deletions to relayed messages
+ * Re-checks recently relayed tweets against the Nitter feed; a tweet whose text
+ * changed is edited in place, a tweet that vanished (confirmed by its status page)
+ * has its relayed messages deleted or struck through on publishers that support it
+ */
+export class ReconciliationService {
+  private nitterClient: NitterClient;
+  private publishers: Map<string, Publisher>;
+  private tweetRepository: TweetRepository;
+  private deliveryRepository: DeliveryRepository;
+  private outboxRepository: OutboxRepository;
+  private rssParser: RSSParser;
+  private sources: SourceConfig[];
+  private config: ReconcileConfig;
+  private logger: Logger;
+
+  constructor(
+    nitterClient: NitterClient,
+    publishers: Publisher[],
+    tweetRepository: TweetRepository,
+    deliveryRepository: DeliveryRepository,
+    outboxRepository: OutboxRepository,
+    rssParser: RSSParser,
+    sources: SourceConfig[],
+    config: ReconcileConfig,
+    logger: Logger
+  ) {
+    this.nitterClient = nitterClient;
+    this.publishers = new Map(publishers.map((publisher) => [publisher.name, publisher]));
+    this.tweetRepository = tweetRepository;
+    this.deliveryRepository = deliveryRepository;
+    this.outboxRepository = outboxRepository;
+    this.rssParser = rssParser;
+    // Edits and deletions are only detected for X posts
+    this.sources = sources.filter((source) => source.type === 'nitter');
+    this.config = config;
+    this.logger = logger.child({ component: 'ReconciliationService' });
+  }
+
+  /**
+   * Reconcile every source
+   */
+  async reconcile(): Promise<ReconciliationResult> {
+    const result: ReconciliationResult = {
+      checked: 0,
+      edited: 0,
+      deleted: 0,
+      errors: [],
+    };
+
+    for (const source of this.sources) {
+      try {
+        await this.reconcileSource(source, result);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        result.errors.push(`[${source.label}] ${errorMessage}`);
+        this.logger.error({ err, source: source.id }, 'Source reconciliation failed');
+      }
+    }
+
+    this.logger.info({ ...result, errors: result.errors.length }, 'Reconciliation completed');
+    return result;
+  }
+
+  /**
+   * Compare the stored tweets of a source with its current feed
+   */
+  private async reconcileSource(source: SourceConfig, result: ReconciliationResult): Promise<void> {
+    const since = new Date(Date.now() - this.config.windowHours * 60 * 60 * 1000);
+    const stored = await this.tweetRepository.getRecentPayloads(source.id, since);
+
+    if (stored.length === 0) {
+      return;
+    }
+
+    // Fetched without validators: the relay's conditional fetches must not see a 304 for changes they never processed
+    const fetched = await this.nitterClient.fetchRSS(source.username);
+    if (fetched.notModified) {
+      return;
+    }
+    const feedTweets = this.rssParser.toTweets(this.rssParser.parse(fetched.content), source);
+
+    // An empty feed says nothing about deletions (Nitter hiccup, suspended session, ...)
+    if (feedTweets.length === 0) {
+      this.logger.warn({ source: source.id }, 'Feed is empty, skipping reconciliation');
+      return;
+    }
+
+    const feedById = new Map(feedTweets.map((tweet) => [tweet.id, tweet]));
+    const oldestInFeed = feedTweets[0]!.publishedAt;
+
+    for (const previous of stored) {
+      result.checked++;
+
+      const current = feedById.get(previous.id);
+      if (current) {
+        if (current.text !== previous.text) {
+          await this.propagateEdit(previous, current, result);
+        }
+        continue;
+      }
+
+      // Tweets older than the feed window simply scrolled out of it
+      if (previous.publishedAt < oldestInFeed) {
+        continue;
+      }
+
+      // Missing from the feed: confirm with the status page before touching anything
+      const exists = await this.nitterClient.tweetExists(source.username, previous.id);
+      if (exists === false) {
+        await this.propagateDeletion(previous, result);
+      } else if (exists === null) {
+        this.logger.debug({ tweetId: previous.id }, 'Could not confirm tweet status, will retry next run');
+      }
+    }
+  }
+
+  /**
+   * Edit the relayed messages of a tweet whose text changed
+   * The stored text is only updated once every edit succeeded, so failures are retried next run
+   */
+  private async propagateEdit(previous: ParsedTweet, current: ParsedTweet, result: ReconciliationResult): Promise<void> {
+    this.logger.info({ tweetId: current.id, source: current.source.id }, 'Tweet edited at source');
+
+    // Messages not sent yet go out with the new text
+    await this.outboxRepository.updatePayload(current);
+
+    let allEdited = true;
+    for (const delivery of await this.getDelivered(current.id)) {
+      const publisher = this.publishers.get(delivery.destination);
+      if (!publisher?.capabilities.edit) {
+        continue;
+      }
+
+      const outcome = await publisher.edit(delivery.platform_message_id!, current);
+      allEdited = this.recordOutcome(outcome, delivery, 'edit', result) && allEdited;
+    }
+
+    if (allEdited) {
+      await this.tweetRepository.updatePayload(current);
+      result.edited++;
+      this.logger.debug({ tweetId: current.id, previousText: previous.text.substring(0, 50) }, 'Edit propagated');
+    }
+  }
+
+  /**
+   * Remove (or strike through) the relayed messages of a deleted tweet
+   */
+  private async propagateDeletion(tweet: ParsedTweet, result: ReconciliationResult): Promise<void> {
+    this.logger.info({ tweetId: tweet.id, source: tweet.source.id, mode: this.config.deleteMode }, 'Tweet deleted at source');
+
+    // Anything still queued must never go out
+    for (const destination of await this.outboxRepository.cancel(tweet.id)) {
+      await this.deliveryRepository.markSkipped(tweet.id, destination);
+    }
+
+    if (this.config.deleteMode !== 'ignore') {
+      for (const delivery of await this.getDelivered(tweet.id)) {
+        const publisher = this.publishers.get(delivery.destination);
+        const strike = this.config.deleteMode === 'strike';
+        if (!publisher || !(strike ? publisher.capabilities.edit : publisher.capabilities.delete)) {
+          continue;
+        }
+
+        const messageId = delivery.platform_message_id!;
+        const outcome: SendResult = strike
+          ? await publisher.strike(messageId, tweet)
+          : await publisher.delete(messageId, tweet);
+
+        // Deletions are not retried: a second delete of the same message would only fail
+        this.recordOutcome(outcome, delivery, this.config.deleteMode, result);
+      }
+    }
+
+    await this.tweetRepository.markDeleted(tweet.id);
+    result.deleted++;
+  }
+
+  /**
+   * Get deliveries that produced a platform message
+   */
+  private async getDelivered(tweetId: string): Promise<DeliveryRecord[]> {
+    const deliveries = await this.deliveryRepository.getByTweet(tweetId);
+    return deliveries.filter((delivery) => delivery.status === 'delivered' && delivery.platform_message_id);
+  }
+
+  /**
+   * Record the error of a failed edit/delete
+   * Returns true if the action succeeded
+   */
+  private recordOutcome(
+    outcome: SendResult,
+    delivery: DeliveryRecord,
+    action: string,
+    result: ReconciliationResult
+  ): boolean {
+    if (!outcome.success) {
+      result.errors.push(
+        `${delivery.destination} ${action} failed for tweet ${delivery.tweet_id}: ${outcome.error ?? 'Unknown error'}`
+      );
+    }
+    return outcome.success;
+  }
+}
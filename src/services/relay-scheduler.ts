@@ -0,0 +1,193 @@
+import cron from 'node-cron';
+import type { DiscordClient } from '../clients/discord-client.js';
+import type { SocialRelayService, ProcessingResult } from './social-relay-service.js';
+import type { OutboxWorker, DrainResult } from './outbox-worker.js';
+import { getNextCronDate } from '../utils/cron.js';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * Result of a poll cycle followed by an outbox drain
+ */
+export interface CycleResult {
+  result: ProcessingResult;
+  drain: DrainResult;
+}
+
+/**
+ * RelayScheduler - Runs poll cycles on the cron schedule
+ * Owns the live scheduling state (running cycle, pause) so operators can
+ * pause, resume or trigger cycles while the bot runs
+ */
+export class RelayScheduler {
+  private relayService: SocialRelayService;
+  private outboxWorker: OutboxWorker;
+  private discordClient: DiscordClient;
+  private cronExpression: string;
+  private logger: Logger;
+  private task: cron.ScheduledTask | null = null;
+  private processing = false;
+  private paused = false;
+
+  constructor(
+    relayService: SocialRelayService,
+    outboxWorker: OutboxWorker,
+    discordClient: DiscordClient,
+    cronExpression: string,
+    logger: Logger
+  ) {
+    this.relayService = relayService;
+    this.outboxWorker = outboxWorker;
+    this.discordClient = discordClient;
+    this.cronExpression = cronExpression;
+    this.logger = logger.child({ component: 'RelayScheduler' });
+  }
+
+  /**
+   * Schedule poll cycles and start the outbox worker
+   */
+  start(): void {
+    if (!cron.validate(this.cronExpression)) {
+      throw new Error(`Invalid cron expression: ${this.cronExpression}`);
+    }
+
+    this.task = cron.schedule(this.cronExpression, async () => {
+      if (this.paused) {
+        this.logger.debug('Scheduler paused, skipping scheduled run');
+        return;
+      }
+      // Failures are logged and alerted in runCycle; the next tick simply tries again
+      await this.runCycle().catch(() => undefined);
+    });
+
+    this.outboxWorker.start();
+    this.logger.info({ cronExpression: this.cronExpression }, 'Cron scheduler started');
+  }
+
+  /**
+   * Stop scheduling, wait for the running cycle (with timeout) and stop the outbox worker
+   */
+  async stop(timeoutMs: number = 10000): Promise<void> {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      this.logger.info('Cron scheduler stopped');
+    }
+
+    if (this.processing) {
+      this.logger.info('Waiting for current processing to complete...');
+      const start = Date.now();
+
+      while (this.processing && Date.now() - start < timeoutMs) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      if (this.processing) {
+        this.logger.warn('Processing did not complete within timeout');
+      }
+    }
+
+    await this.outboxWorker.stop();
+  }
+
+  /**
+   * Pause polling and delivery; a running cycle is allowed to finish
+   */
+  async pause(): Promise<void> {
+    if (this.paused) {
+      return;
+    }
+    this.paused = true;
+    await this.outboxWorker.stop();
+    this.logger.info('Scheduler paused');
+  }
+
+  /**
+   * Resume polling and delivery
+   */
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    if (this.task) {
+      this.outboxWorker.start();
+    }
+    this.logger.info('Scheduler resumed');
+  }
+
+  /**
+   * Run a cycle right away, even while paused
+   * Returns null if a cycle is already running; rethrows unhandled cycle errors
+   */
+  async runNow(): Promise<CycleResult | null> {
+    return this.runCycle();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isProcessing(): boolean {
+    return this.processing;
+  }
+
+  /**
+   * Get the next scheduled run (null while paused)
+   */
+  getNextRunAt(): Date | null {
+    return this.paused ? null : getNextCronDate(this.cronExpression);
+  }
+
+  /**
+   * Run a single processing cycle with error handling
+   * New tweets are queued, then the outbox is drained right away so they go out promptly
+   */
+  private async runCycle(): Promise<CycleResult | null> {
+    if (this.processing) {
+      this.logger.warn('Previous processing cycle still running, skipping');
+      return null;
+    }
+
+    this.processing = true;
+
+    try {
+      const result = await this.relayService.process();
+      const drain = await this.outboxWorker.drain();
+
+      this.logger.info({
+        totalFetched: result.totalFetched,
+        newTweets: result.newTweets,
+        sent: drain.sent,
+        failed: drain.failed,
+        deadLettered: drain.deadLettered,
+        errorCount: result.errors.length,
+        servedBy: result.servedBy,
+      }, 'Processing cycle completed');
+
+      // Send alert if there were errors during processing
+      if (result.errors.length > 0) {
+        const errorSummary = result.errors.slice(0, 5).join('\n• ');
+        const moreErrors = result.errors.length > 5 ? `\n...and ${result.errors.length - 5} more` : '';
+        const servedBy = Object.entries(result.servedBy).map(([source, instance]) => `${source}: ${instance}`).join(', ');
+        await this.discordClient.sendAlert(
+          'Processing Errors',
+          `Encountered ${result.errors.length} error(s) during processing:\n\n• ${errorSummary}${moreErrors}${servedBy ? `\n\nServed by: ${servedBy}` : ''}`
+        );
+      }
+
+      return { result, drain };
+    } catch (err) {
+      this.logger.error({ err }, 'Processing cycle failed with unhandled error');
+
+      // Send alert for unhandled errors
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      await this.discordClient.sendAlert(
+        'Processing Cycle Failed',
+        `The bot encountered an unhandled error:\n\n\`\`\`\n${errorMessage}\n\`\`\``
+      );
+      throw err;
+    } finally {
+      this.processing = false;
+    }
+  }
+}
@@ -1,137 +1,176 @@
+import { createHash } from 'node:crypto';
 import type { NitterClient } from '../clients/nitter-client.js';
-import type { TelegramClient } from '../clients/telegram-client.js';
+import type { FeedValidators } from '../clients/feed-client.js';
+import type { NitterInstanceStatus } from '../clients/nitter-instance-pool.js';
 import type { DiscordClient } from '../clients/discord-client.js';
+import type { Publisher } from '../clients/publisher.js';
+import type { DatabaseService } from '../db/database.js';
 import type { TweetRepository } from '../db/tweet-repository.js';
+import type { DeliveryRepository, DeliveryDestination } from '../db/delivery-repository.js';
+import type { OutboxRepository } from '../db/outbox-repository.js';
 import type { ParsedTweet } from '../clients/telegram-client.js';
-import { RSSParser } from '../utils/rss-parser.js';
+import type { SourceConfig, SourceType, BootstrapPolicy } from '../config/types.js';
+import type { SourceReader } from '../sources/types.js';
 import type { Logger } from '../utils/logger.js';
+import { THREAD_WINDOW_MS } from '../utils/rss-parser.js';
+import { tweetsFetchedTotal, tweetsNewTotal, feedUnchangedTotal, recordSuccessfulCycle } from '../utils/metrics.js';
 
 /**
  * Processing result for a single poll cycle
  */
 export interface ProcessingResult {
   totalFetched: number;
+  /** New tweets queued in the outbox for delivery */
   newTweets: number;
-  telegramSuccess: number;
-  telegramFailed: number;
-  discordSuccess: number;
-  discordFailed: number;
   errors: string[];
+  /** Nitter instance that served each source, by source id */
+  servedBy: Record<string, string>;
+}
+
+/**
+ * Last completed poll cycle
+ */
+export interface LastCycle {
+  result: ProcessingResult;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+/**
+ * Selection and pacing of a backfill
+ */
+export interface BackfillOptions {
+  /** Only backfill these source ids (all sources when empty) */
+  sources: string[];
+  /** Relay the tweets published since this date */
+  since?: Date;
+  /** Relay the newest N tweets of each source */
+  last?: number;
+  /** Delay between two consecutive tweets */
+  intervalMs: number;
+}
+
+/**
+ * Outcome of a backfill
+ */
+export interface BackfillResult {
+  /** Tweets queued, oldest first, with the time their delivery starts */
+  queued: { tweet: ParsedTweet; destinations: DeliveryDestination[]; at: Date }[];
+  /** Selected tweets already delivered (or still queued) to every publisher */
+  alreadyDelivered: number;
+  errors: string[];
+}
+
+/**
+ * Receives the tweets a dry run would queue (or record as skipped) instead of writing them
+ */
+export type DryRunHandler = (tweet: ParsedTweet, action: 'queue' | 'skip') => void;
+
+/**
+ * Fingerprint of the last feed processed for a source
+ */
+interface FeedState {
+  validators: FeedValidators;
+  /** SHA-256 of the feed body */
+  hash: string;
+  lastBuildDate?: string;
 }
 
 /**
  * SocialRelayService - Main orchestration service
- * Coordinates fetching, deduplication, and posting
+ * Coordinates fetching and deduplication for every configured source and
+ * queues new tweets in the outbox for every publisher; delivery is done by the OutboxWorker
  */
 export class SocialRelayService {
   private nitterClient: NitterClient;
-  private telegramClient: TelegramClient;
+  private publishers: Publisher[];
   private discordClient: DiscordClient;
+  private db: DatabaseService;
   private tweetRepository: TweetRepository;
-  private rssParser: RSSParser;
+  private deliveryRepository: DeliveryRepository;
+  private outboxRepository: OutboxRepository;
+  private readers: Record<SourceType, SourceReader>;
+  private sources: SourceConfig[];
   private logger: Logger;
+  private dryRun: DryRunHandler | null;
   
   // Track consecutive failures for alerting
   private consecutiveFailures: number = 0;
   private readonly FAILURE_THRESHOLD: number = 3;
   private alertSent: boolean = false;
 
+  private lastCycle: LastCycle | null = null;
+
+  // Last processed feed per source id, to skip unchanged feeds
+  private feedStates = new Map<string, FeedState>();
+
   constructor(
     nitterClient: NitterClient,
-    telegramClient: TelegramClient,
+    publishers: Publisher[],
     discordClient: DiscordClient,
+    db: DatabaseService,
     tweetRepository: TweetRepository,
-    logger: Logger
+    deliveryRepository: DeliveryRepository,
+    outboxRepository: OutboxRepository,
+    readers: Record<SourceType, SourceReader>,
+    sources: SourceConfig[],
+    logger: Logger,
+    dryRun?: DryRunHandler
   ) {
     this.nitterClient = nitterClient;
-    this.telegramClient = telegramClient;
+    this.publishers = publishers;
+    // Alerts always go to the Discord alert channel
     this.discordClient = discordClient;
+    this.db = db;
     this.tweetRepository = tweetRepository;
+    this.deliveryRepository = deliveryRepository;
+    this.outboxRepository = outboxRepository;
+    this.readers = readers;
+    this.sources = sources;
     this.logger = logger.child({ component: 'SocialRelayService' });
-    this.rssParser = new RSSParser(logger);
+    // Fetching, filtering and deduplication run as usual; nothing is recorded or queued
+    this.dryRun = dryRun ?? null;
   }
 
   /**
-   * Main processing loop - fetch RSS, filter new tweets, post to channels
+   * Main processing loop - poll every source, filter new tweets, queue them for delivery
    */
   async process(): Promise<ProcessingResult> {
     const result: ProcessingResult = {
       totalFetched: 0,
       newTweets: 0,
-      telegramSuccess: 0,
-      telegramFailed: 0,
-      discordSuccess: 0,
-      discordFailed: 0,
       errors: [],
+      servedBy: {},
     };
 
-    this.logger.info('Starting processing cycle');
-
-    try {
-      // Step 1: Fetch RSS feed
-      const xmlContent = await this.nitterClient.fetchRSS();
-      
-      // Step 2: Parse RSS to tweets
-      const feed = this.rssParser.parse(xmlContent);
-      const allTweets = this.rssParser.toTweets(feed);
-      result.totalFetched = allTweets.length;
-
-      if (allTweets.length === 0) {
-        this.logger.info('No tweets found in RSS feed');
-        return result;
-      }
-
-      this.logger.debug({ tweetCount: allTweets.length }, 'Tweets fetched from RSS');
+    const startedAt = new Date();
+    this.logger.info({ sourceCount: this.sources.length }, 'Starting processing cycle');
 
-      // Step 3: Filter out already processed tweets
-      const tweetIds = allTweets.map((t) => t.id);
-      const existingIds = await this.tweetRepository.filterExisting(tweetIds);
-      const newTweets = allTweets.filter((t) => !existingIds.has(t.id));
-      result.newTweets = newTweets.length;
+    const failedSources: string[] = [];
+    let lastErrorMessage = '';
 
-      if (newTweets.length === 0) {
-        this.logger.info({ totalFetched: result.totalFetched }, 'No new tweets to process');
-        return result;
+    // Sources are polled one after another so a failing feed never blocks the rest
+    for (const source of this.sources) {
+      try {
+        await this.processSource(source, result);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        result.errors.push(`[${source.label}] ${errorMessage}`);
+        failedSources.push(source.label);
+        lastErrorMessage = errorMessage;
+        this.logger.error({ err, source: source.id }, 'Source processing failed');
       }
+    }
 
-      // Check if this is the first run (no tweets in DB yet)
-      const isFirstRun = existingIds.size === 0 && newTweets.length === result.totalFetched;
-
-      if (isFirstRun && newTweets.length > 1) {
-        this.logger.info({ 
-          totalTweets: newTweets.length 
-        }, 'First run detected - marking old tweets as processed, only sending the latest');
-
-        // Sort by date descending (newest first) - allTweets should already be sorted this way from RSS
-        // The first tweet is the most recent one
-        const latestTweet = newTweets[0]!;
-        const olderTweets = newTweets.slice(1);
-
-        // Mark all older tweets as processed without sending
-        for (const tweet of olderTweets) {
-          await this.tweetRepository.markAsProcessed(tweet.id, tweet.publishedAt);
-        }
-        this.logger.info({ count: olderTweets.length }, 'Marked older tweets as processed (not sent)');
-
-        // Only process the latest tweet
-        await this.processSingleTweet(latestTweet, result);
-        result.newTweets = 1;
-      } else {
-        this.logger.info({ 
-          newTweets: newTweets.length, 
-          alreadyProcessed: existingIds.size 
-        }, 'New tweets to process');
-
-        // Step 4: Process each new tweet (oldest first)
-        for (const tweet of newTweets) {
-          await this.processSingleTweet(tweet, result);
-        }
-      }
+    this.logger.info({
+      ...result,
+      errors: result.errors.length,
+    }, 'Processing cycle completed');
 
-      this.logger.info({
-        ...result,
-        errors: result.errors.length,
-      }, 'Processing cycle completed');
+    this.lastCycle = { result, startedAt, completedAt: new Date() };
+
+    if (failedSources.length === 0) {
+      recordSuccessfulCycle();
 
       // Reset failure counter on success
       if (this.consecutiveFailures > 0) {
@@ -139,37 +178,336 @@ export class SocialRelayService {
         this.consecutiveFailures = 0;
         this.alertSent = false;
       }
-
       return result;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      result.errors.push(errorMessage);
-      this.logger.error({ err }, 'Processing cycle failed');
-      
-      // Track consecutive failures and send alert if threshold reached
-      this.consecutiveFailures++;
-      this.logger.warn({ 
-        consecutiveFailures: this.consecutiveFailures,
-        threshold: this.FAILURE_THRESHOLD 
-      }, 'Nitter fetch failure tracked');
-
-      if (this.consecutiveFailures >= this.FAILURE_THRESHOLD && !this.alertSent) {
-        await this.sendNitterFailureAlert(errorMessage);
-        this.alertSent = true;
+    }
+
+    // Track consecutive failures and send alert if threshold reached
+    this.consecutiveFailures++;
+    this.logger.warn({ 
+      consecutiveFailures: this.consecutiveFailures,
+      threshold: this.FAILURE_THRESHOLD,
+      failedSources,
+    }, 'Nitter fetch failure tracked');
+
+    if (this.consecutiveFailures >= this.FAILURE_THRESHOLD && !this.alertSent) {
+      await this.sendNitterFailureAlert(lastErrorMessage, failedSources);
+      this.alertSent = true;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch a source's feed and relay its tweets unless it is unchanged since the last cycle
+   * The feed fingerprint is only remembered once the feed was processed without error,
+   * so a failed cycle is never mistaken for a handled one
+   */
+  private async processSource(source: SourceConfig, result: ProcessingResult): Promise<void> {
+    const previous = this.feedStates.get(source.id);
+    const reader = this.readers[source.type];
+
+    // Step 1: Fetch the feed (conditional on the last processed fetch)
+    const fetched = await reader.fetch(source, previous?.validators);
+    result.servedBy[source.id] = fetched.instance;
+
+    if (fetched.notModified) {
+      this.logger.debug({ source: source.id, instance: fetched.instance }, 'Feed not modified, skipping');
+      feedUnchangedTotal.inc({ source: source.id, reason: 'not_modified' });
+      return;
+    }
+
+    const hash = createHash('sha256').update(fetched.content).digest('hex');
+    if (previous?.hash === hash) {
+      this.logger.debug({ source: source.id, instance: fetched.instance }, 'Feed content unchanged, skipping');
+      feedUnchangedTotal.inc({ source: source.id, reason: 'same_content' });
+      this.feedStates.set(source.id, { ...previous, validators: fetched.validators });
+      return;
+    }
+
+    // Step 2: Parse the feed
+    const feed = reader.parse(fetched.content, source);
+    if (feed.lastBuildDate && previous?.lastBuildDate === feed.lastBuildDate) {
+      this.logger.debug({ source: source.id, lastBuildDate: feed.lastBuildDate }, 'Feed build date unchanged, skipping');
+      feedUnchangedTotal.inc({ source: source.id, reason: 'same_build_date' });
+      this.feedStates.set(source.id, { validators: fetched.validators, hash, lastBuildDate: feed.lastBuildDate });
+      return;
+    }
+
+    await this.processPosts(source, feed.posts, result);
+    this.feedStates.set(source.id, { validators: fetched.validators, hash, lastBuildDate: feed.lastBuildDate });
+  }
+
+  /**
+   * Deduplicate and queue the posts of a parsed feed
+   */
+  private async processPosts(source: SourceConfig, allTweets: ParsedTweet[], result: ProcessingResult): Promise<void> {
+    result.totalFetched += allTweets.length;
+    tweetsFetchedTotal.inc({ source: source.id }, allTweets.length);
+
+    if (allTweets.length === 0) {
+      this.logger.info({ source: source.id }, 'No tweets found in RSS feed');
+      return;
+    }
+
+    this.logger.debug({ source: source.id, tweetCount: allTweets.length }, 'Tweets fetched from RSS');
+
+    // Step 3: Filter out already processed tweets
+    const tweetIds = allTweets.map((t) => t.id);
+    const existingIds = await this.tweetRepository.filterExisting(tweetIds);
+    const newTweets = allTweets.filter((t) => !existingIds.has(t.id));
+
+    if (newTweets.length === 0) {
+      this.logger.info({ source: source.id, totalFetched: allTweets.length }, 'No new tweets to process');
+      return;
+    }
+
+    // A source none of whose tweets is in the DB yet was just added: its bootstrap policy decides what is relayed
+    const isNewSource = existingIds.size === 0 && await this.tweetRepository.getCountBySource(source.id) === 0;
+
+    if (isNewSource) {
+      const { send, skip } = selectBootstrapTweets(source.bootstrap, newTweets);
+      this.logger.info({
+        source: source.id,
+        policy: source.bootstrap,
+        totalTweets: newTweets.length,
+        sending: send.length,
+      }, 'New source detected - applying bootstrap policy');
+
+      // Record the tweets left out as skipped so they are never sent
+      for (const tweet of skip) {
+        await this.skipTweet(tweet);
       }
+      this.logger.info({ source: source.id, count: skip.length }, 'Marked older tweets as processed (not sent)');
 
-      return result;
+      for (const tweet of send) {
+        await this.queueTweet(tweet);
+      }
+      result.newTweets += send.length;
+      tweetsNewTotal.inc({ source: source.id }, send.length);
+    } else {
+      this.logger.info({ 
+        source: source.id,
+        newTweets: newTweets.length, 
+        alreadyProcessed: existingIds.size 
+      }, 'New tweets to queue');
+
+      // Step 4: Queue each new tweet (oldest first)
+      for (const tweet of newTweets) {
+        await this.queueTweet(tweet);
+      }
+      result.newTweets += newTweets.length;
+      tweetsNewTotal.inc({ source: source.id }, newTweets.length);
+    }
+  }
+
+  /**
+   * Queue historical tweets of the sources for delivery, oldest first and paced
+   *
+   * Tweets are taken from the current feeds and from the stored payloads (so tweets that
+   * rolled off a feed can still be relayed). New tweets are recorded and queued for every
+   * publisher; processed ones are only queued for the publishers that have not received
+   * them and are not still delivering them (skipped, failed and dead-lettered ones are queued again).
+   * Each tweet becomes due `intervalMs` after the previous one, so the OutboxWorker
+   * delivers them at that pace. Each tweet is queued in its own transaction, so an
+   * interrupted backfill can simply be run again.
+   */
+  async backfill(options: BackfillOptions): Promise<BackfillResult> {
+    const result: BackfillResult = { queued: [], alreadyDelivered: 0, errors: [] };
+    const sources = options.sources.length > 0
+      ? this.sources.filter((source) => options.sources.includes(source.id))
+      : this.sources;
+
+    const selected: ParsedTweet[] = [];
+    for (const source of sources) {
+      try {
+        selected.push(...await this.selectBackfillTweets(source, options));
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        result.errors.push(`[${source.label}] ${errorMessage}`);
+        this.logger.error({ err, source: source.id }, 'Backfill source failed');
+      }
+    }
+
+    // Chronological across sources, so the channels read like they were relayed live
+    selected.sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+
+    const existingIds = await this.tweetRepository.filterExisting(selected.map((t) => t.id));
+    const destinations = this.getDestinations();
+    const startAt = Date.now();
+
+    for (const tweet of selected) {
+      let missing = destinations;
+      if (existingIds.has(tweet.id)) {
+        // Pending deliveries still have their outbox message
+        const covered = new Set((await this.deliveryRepository.getByTweet(tweet.id))
+          .filter((record) => record.status === 'delivered' || record.status === 'pending')
+          .map((record) => record.destination));
+        missing = destinations.filter((destination) => !covered.has(destination));
+      }
+
+      if (missing.length === 0) {
+        result.alreadyDelivered++;
+        continue;
+      }
+
+      const at = new Date(startAt + result.queued.length * options.intervalMs);
+      result.queued.push({ tweet, destinations: missing, at });
+
+      if (!existingIds.has(tweet.id)) {
+        await this.queueTweet(tweet, at);
+        continue;
+      }
+
+      if (this.dryRun) {
+        this.dryRun(tweet, 'queue');
+        continue;
+      }
+
+      await this.requeue(tweet, missing, at);
+    }
+
+    this.logger.info({
+      sources: sources.map((source) => source.id),
+      queued: result.queued.length,
+      alreadyDelivered: result.alreadyDelivered,
+      errors: result.errors.length,
+    }, 'Backfill queued');
+    return result;
+  }
+
+  /**
+   * Get the tweets of a source matching a backfill selection, oldest first
+   * The current feed wins over a stored payload of the same tweet
+   */
+  private async selectBackfillTweets(source: SourceConfig, options: BackfillOptions): Promise<ParsedTweet[]> {
+    const reader = this.readers[source.type];
+    // Fetched without validators, so never answered with not modified
+    const fetched = await reader.fetch(source);
+    const posts = fetched.notModified ? [] : reader.parse(fetched.content, source).posts;
+
+    const tweets = new Map<string, ParsedTweet>();
+    const stored = await this.tweetRepository.getRecentPayloads(source.id, options.since ?? new Date(0));
+    for (const tweet of stored) {
+      // Stored payloads carry the source config of the time they were recorded
+      tweets.set(tweet.id, { ...tweet, source });
+    }
+    for (const tweet of posts) {
+      tweets.set(tweet.id, tweet);
+    }
+
+    const sorted = [...tweets.values()].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+    const since = options.since;
+    const matching = since ? sorted.filter((tweet) => tweet.publishedAt >= since) : sorted;
+    return options.last !== undefined ? matching.slice(-options.last) : matching;
+  }
+
+  /**
+   * Record a tweet and queue it for delivery to every publisher
+   */
+  private async queueTweet(tweet: ParsedTweet, nextAttemptAt?: Date): Promise<void> {
+    // A continuation whose parent is not in the feed replies to the source's previous own tweet,
+    // under the same rule as the parser
+    if (tweet.isThreadContinuation && !tweet.inReplyToId) {
+      const after = new Date(tweet.publishedAt.getTime() - THREAD_WINDOW_MS);
+      tweet.inReplyToId = await this.tweetRepository.getLatestOwnIdBetween(tweet.source.id, after, tweet.publishedAt) ?? undefined;
+    }
+
+    if (this.dryRun) {
+      this.dryRun(tweet, 'queue');
+      return;
+    }
+
+    // One transaction: a tweet is never recorded as processed without being queued
+    await this.db.transaction(async (client) => {
+      await this.tweetRepository.markAsProcessed(tweet, client);
+      await this.deliveryRepository.create(tweet.id, this.getDestinations(), 'pending', client);
+      await this.outboxRepository.enqueue(tweet, this.getDestinations(), nextAttemptAt, client);
+    });
+  }
+
+  /**
+   * Record a tweet as processed without ever sending it
+   */
+  private async skipTweet(tweet: ParsedTweet): Promise<void> {
+    if (this.dryRun) {
+      this.dryRun(tweet, 'skip');
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      await this.tweetRepository.markAsProcessed(tweet, client);
+      await this.deliveryRepository.create(tweet.id, this.getDestinations(), 'skipped', client);
+    });
+  }
+
+  /**
+   * Names of the configured publishers
+   */
+  private getDestinations(): DeliveryDestination[] {
+    return this.publishers.map((publisher) => publisher.name);
+  }
+
+  /**
+   * Queue an already processed tweet for delivery again (to every publisher unless some are given)
+   * Returns false if the tweet is unknown or has no stored content
+   */
+  async resend(tweetId: string, only?: readonly DeliveryDestination[]): Promise<boolean> {
+    const tweet = await this.tweetRepository.getPayload(tweetId);
+    if (!tweet) {
+      return false;
+    }
+
+    const destinations = only ? this.getDestinations().filter((name) => only.includes(name)) : this.getDestinations();
+    await this.requeue(tweet, destinations);
+
+    this.logger.info({ tweetId, destinations }, 'Tweet queued for resend');
+    return true;
+  }
+
+  /**
+   * Queue a processed tweet for the given publishers again
+   * Deliveries only go back to pending together with their outbox messages, which replace
+   * their dead letters (so a later outbox:requeue does not send them once more)
+   */
+  private async requeue(tweet: ParsedTweet, destinations: DeliveryDestination[], nextAttemptAt?: Date): Promise<void> {
+    await this.db.transaction(async (client) => {
+      await this.deliveryRepository.create(tweet.id, destinations, 'pending', client);
+      for (const destination of destinations) {
+        await this.deliveryRepository.markPending(tweet.id, destination, client);
+      }
+      await this.outboxRepository.discardDeadLetters(tweet.id, destinations, client);
+      await this.outboxRepository.enqueue(tweet, destinations, nextAttemptAt, client);
+    });
+  }
+
+  /**
+   * Drop the queued messages of a tweet so it is never delivered
+   * Returns the destinations that were cancelled
+   */
+  async skip(tweetId: string): Promise<DeliveryDestination[]> {
+    const cancelled = await this.outboxRepository.cancel(tweetId);
+    for (const destination of cancelled) {
+      await this.deliveryRepository.markSkipped(tweetId, destination);
     }
+
+    this.logger.info({ tweetId, cancelled }, 'Tweet skipped');
+    return cancelled;
   }
 
   /**
    * Send alert when Nitter fails repeatedly
    */
-  private async sendNitterFailureAlert(errorMessage: string): Promise<void> {
+  private async sendNitterFailureAlert(errorMessage: string, failedSources: string[]): Promise<void> {
     const alertTitle = 'Nitter RSS Feed Failure';
     const alertBody = [
       `The bot has failed to fetch tweets ${this.consecutiveFailures} times in a row.`,
       '',
+      `**Failing sources:** ${failedSources.join(', ')}`,
+      '',
+      '**Nitter instances:**',
+      ...this.nitterClient.getInstanceStatus().map((instance) =>
+        `• ${instance.url} - ${instance.state}${instance.lastError ? ` (${instance.lastError})` : ''}`),
+      '',
       '**Possible causes:**',
       '• Twitter session cookies expired',
       '• Twitter account suspended/banned',
@@ -193,86 +531,51 @@ export class SocialRelayService {
   }
 
   /**
-   * Process a single tweet - post to channels and mark as processed
+   * Get the last completed poll cycle (null before the first one)
    */
-  private async processSingleTweet(
-    tweet: ParsedTweet, 
-    result: ProcessingResult
-  ): Promise<void> {
-    this.logger.debug({ tweetId: tweet.id }, 'Processing tweet');
-
-    let telegramSuccess = false;
-    let discordSuccess = false;
-
-    // Post to Telegram
-    try {
-      telegramSuccess = await this.telegramClient.sendTweet(tweet);
-      if (telegramSuccess) {
-        result.telegramSuccess++;
-      } else {
-        result.telegramFailed++;
-        result.errors.push(`Telegram send failed for tweet ${tweet.id}`);
-      }
-    } catch (err) {
-      result.telegramFailed++;
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      result.errors.push(`Telegram error for tweet ${tweet.id}: ${errorMessage}`);
-      this.logger.error({ err, tweetId: tweet.id }, 'Telegram send threw exception');
-    }
+  getLastCycle(): LastCycle | null {
+    return this.lastCycle;
+  }
 
-    // Post to Discord
-    try {
-      discordSuccess = await this.discordClient.sendTweet(tweet);
-      if (discordSuccess) {
-        result.discordSuccess++;
-      } else {
-        result.discordFailed++;
-        result.errors.push(`Discord send failed for tweet ${tweet.id}`);
-      }
-    } catch (err) {
-      result.discordFailed++;
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      result.errors.push(`Discord error for tweet ${tweet.id}: ${errorMessage}`);
-      this.logger.error({ err, tweetId: tweet.id }, 'Discord send threw exception');
-    }
+  /**
+   * Get the number of consecutive cycles in which a source failed
+   */
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
 
-    // Mark as processed if at least one channel succeeded
-    // This prevents infinite retries while allowing the other channel to catch up
-    if (telegramSuccess || discordSuccess) {
-      try {
-        await this.tweetRepository.markAsProcessed(tweet.id, tweet.publishedAt);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        result.errors.push(`DB error for tweet ${tweet.id}: ${errorMessage}`);
-        this.logger.error({ err, tweetId: tweet.id }, 'Failed to mark tweet as processed');
-        // Note: Tweet was already posted, so we continue
-        // It may be re-processed on next cycle, but channels should handle duplicates gracefully
-      }
-    }
+  /**
+   * Get the health and circuit state of the Nitter instances
+   */
+  getNitterInstances(): NitterInstanceStatus[] {
+    return this.nitterClient.getInstanceStatus();
+  }
 
-    // Small delay between tweets to avoid rate limiting
-    await this.sleep(1000);
+  /**
+   * Get the name and capabilities of every publisher
+   */
+  getPublishers(): Pick<Publisher, 'name' | 'capabilities'>[] {
+    return this.publishers.map(({ name, capabilities }) => ({ name, capabilities }));
   }
 
   /**
-   * Perform health checks on all services
+   * Perform health checks on Nitter, every publisher and the database
+   * Keyed by service name (nitter, database and the publisher names)
    */
-  async healthCheck(): Promise<{
-    nitter: boolean;
-    telegram: boolean;
-    discord: boolean;
-    database: boolean;
-  }> {
-    const [nitter, telegram, discord] = await Promise.all([
+  async healthCheck(): Promise<Record<string, boolean>> {
+    const [nitter, ...publishers] = await Promise.all([
       this.nitterClient.healthCheck(),
-      this.telegramClient.healthCheck(),
-      Promise.resolve(this.discordClient.healthCheck()),
+      ...this.publishers.map((publisher) => publisher.healthCheck().catch(() => false)),
     ]);
 
     // Database health check is done via repository
     const database = await this.checkDatabaseHealth();
 
-    return { nitter, telegram, discord, database };
+    return {
+      nitter,
+      ...Object.fromEntries(this.publishers.map((publisher, i) => [publisher.name, publishers[i] ?? false])),
+      database,
+    };
   }
 
   /**
@@ -286,11 +589,23 @@ export class SocialRelayService {
       return false;
     }
   }
+}
 
-  /**
-   * Sleep utility
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Split the tweets of a new source (oldest first) into the ones its bootstrap policy sends and skips
+ */
+function selectBootstrapTweets(policy: BootstrapPolicy, tweets: ParsedTweet[]): { send: ParsedTweet[]; skip: ParsedTweet[] } {
+  switch (policy.mode) {
+    case 'none':
+      return { send: [], skip: tweets };
+    case 'latest': {
+      const split = Math.max(tweets.length - policy.count, 0);
+      return { send: tweets.slice(split), skip: tweets.slice(0, split) };
+    }
+    case 'since':
+      return {
+        send: tweets.filter((tweet) => tweet.publishedAt >= policy.since),
+        skip: tweets.filter((tweet) => tweet.publishedAt < policy.since),
+      };
   }
 }
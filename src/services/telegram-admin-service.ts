@@ -0,0 +1,130 @@
+import { Telegraf } from 'telegraf';
+import type { TelegramConfig } from '../config/types.js';
+import type { AdminCommands, AdminReply } from './admin-commands.js';
+import type { Logger } from '../utils/logger.js';
+
+/**
+ * TelegramAdminService - Admin commands over Telegram
+ * Long-polls the bot for commands from allowlisted user ids; messages from anyone
+ * else are ignored. Posting to the channel stays in the send-only TelegramClient.
+ */
+export class TelegramAdminService {
+  private bot: Telegraf;
+  private adminUserIds: Set<number>;
+  private commands: AdminCommands;
+  private logger: Logger;
+  private running = false;
+
+  constructor(config: TelegramConfig, commands: AdminCommands, logger: Logger) {
+    this.bot = new Telegraf(config.botToken);
+    this.adminUserIds = new Set(config.adminUserIds);
+    this.commands = commands;
+    this.logger = logger.child({ component: 'TelegramAdminService' });
+    this.registerCommands();
+  }
+
+  /**
+   * Start long polling for commands
+   */
+  start(): void {
+    // launch() only resolves once polling stops, so it is not awaited
+    this.bot.launch({ dropPendingUpdates: true }).catch((err) => {
+      this.running = false;
+      this.logger.error({ err }, 'Telegram admin polling stopped with error');
+    });
+    this.running = true;
+    this.logger.info({ admins: this.adminUserIds.size }, 'Telegram admin commands enabled');
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    try {
+      this.bot.stop('shutdown');
+    } catch (err) {
+      this.logger.debug({ err }, 'Telegram admin polling was not running');
+    }
+  }
+
+  /**
+   * Register the allowlist guard and command handlers
+   */
+  private registerCommands(): void {
+    this.bot.use(async (ctx, next) => {
+      const userId = ctx.from?.id;
+      if (userId === undefined || !this.adminUserIds.has(userId)) {
+        if (ctx.message && 'text' in ctx.message && ctx.message.text.startsWith('/')) {
+          this.logger.warn({ userId, username: ctx.from?.username }, 'Ignoring command from non-admin user');
+        }
+        return;
+      }
+      await next();
+    });
+
+    this.bot.catch((err, ctx) => {
+      this.logger.error({ err, updateId: ctx.update.update_id }, 'Admin command failed');
+      ctx.reply(`Command failed: ${err instanceof Error ? err.message : String(err)}`).catch(() => undefined);
+    });
+
+    this.bot.command(['start', 'help'], (ctx) => ctx.reply([
+      '/status - scheduler state, last cycle, outbox',
+      '/recent [n] - recently processed tweets',
+      '/pause - suspend polling and delivery',
+      '/resume - resume polling and delivery',
+      '/runnow - run a poll cycle now',
+      '/resend <tweetId> - deliver a tweet again',
+      '/skip <tweetId> - cancel queued deliveries of a tweet',
+    ].join('\n')));
+
+    this.bot.command('status', async (ctx) => {
+      await ctx.reply(this.format(await this.commands.status()));
+    });
+
+    this.bot.command('recent', async (ctx) => {
+      await ctx.reply(this.format(await this.commands.recent(ctx.args[0])));
+    });
+
+    this.bot.command('pause', async (ctx) => {
+      await ctx.reply(this.format(await this.commands.pause(this.actor(ctx.from.id))));
+    });
+
+    this.bot.command('resume', async (ctx) => {
+      await ctx.reply(this.format(this.commands.resume(this.actor(ctx.from.id))));
+    });
+
+    this.bot.command('runnow', async (ctx) => {
+      await ctx.reply('Running a cycle...');
+      // Not awaited: a cycle can outlast Telegraf's update handler timeout
+      this.commands.runNow(this.actor(ctx.from.id))
+        .then((reply) => ctx.reply(this.format(reply)))
+        .catch((err) => this.logger.error({ err }, 'Failed to report cycle result'));
+    });
+
+    this.bot.command('resend', async (ctx) => {
+      await ctx.reply(this.format(await this.commands.resend(this.actor(ctx.from.id), ctx.args[0])));
+    });
+
+    this.bot.command('skip', async (ctx) => {
+      await ctx.reply(this.format(await this.commands.skip(this.actor(ctx.from.id), ctx.args[0])));
+    });
+  }
+
+  /**
+   * Render a reply as plain text
+   */
+  private format(reply: AdminReply): string {
+    return [reply.title, ...reply.lines].join('\n');
+  }
+
+  /**
+   * Identify the operator in logs
+   */
+  private actor(userId: number): string {
+    return `telegram:${userId}`;
+  }
+}
@@ -0,0 +1,35 @@
+import type { FeedClient, FeedFetchResult, FeedValidators } from '../clients/feed-client.js';
+import type { SourceConfig } from '../config/types.js';
+import type { FeedParser } from '../utils/feed-parser.js';
+import type { SourceReader, ParsedFeed } from './types.js';
+
+/**
+ * FeedSourceReader - Reads generic RSS 2.0 / Atom 1.0 feeds (blogs, Medium, GitHub releases)
+ */
+export class FeedSourceReader implements SourceReader {
+  private feedClient: FeedClient;
+  private feedParser: FeedParser;
+
+  constructor(feedClient: FeedClient, feedParser: FeedParser) {
+    this.feedClient = feedClient;
+    this.feedParser = feedParser;
+  }
+
+  /**
+   * Fetch the feed from its URL
+   */
+  fetch(source: SourceConfig, cached?: FeedValidators): Promise<FeedFetchResult> {
+    if (!source.url) {
+      return Promise.reject(new Error(`Feed source ${source.id} has no url`));
+    }
+    return this.feedClient.fetch(source.url, cached);
+  }
+
+  /**
+   * Parse RSS or Atom into posts
+   */
+  parse(content: string, source: SourceConfig): ParsedFeed {
+    const feed = this.feedParser.parse(content);
+    return { posts: this.feedParser.toPosts(feed, source), lastBuildDate: feed.updated };
+  }
+}
@@ -0,0 +1,3 @@
+export { NitterSourceReader } from './nitter-source-reader.js';
+export { FeedSourceReader } from './feed-source-reader.js';
+export type { SourceReader, ParsedFeed } from './types.js';
@@ -0,0 +1,33 @@
+import type { NitterClient } from '../clients/nitter-client.js';
+import type { FeedFetchResult, FeedValidators } from '../clients/feed-client.js';
+import type { SourceConfig } from '../config/types.js';
+import type { RSSParser } from '../utils/rss-parser.js';
+import type { SourceReader, ParsedFeed } from './types.js';
+
+/**
+ * NitterSourceReader - Reads X accounts through the Nitter instance pool
+ */
+export class NitterSourceReader implements SourceReader {
+  private nitterClient: NitterClient;
+  private rssParser: RSSParser;
+
+  constructor(nitterClient: NitterClient, rssParser: RSSParser) {
+    this.nitterClient = nitterClient;
+    this.rssParser = rssParser;
+  }
+
+  /**
+   * Fetch the account's RSS feed from the Nitter pool
+   */
+  fetch(source: SourceConfig, cached?: FeedValidators): Promise<FeedFetchResult> {
+    return this.nitterClient.fetchRSS(source.username, cached);
+  }
+
+  /**
+   * Parse Nitter RSS into tweets
+   */
+  parse(content: string, source: SourceConfig): ParsedFeed {
+    const feed = this.rssParser.parse(content);
+    return { posts: this.rssParser.toTweets(feed, source), lastBuildDate: feed.lastBuildDate };
+  }
+}
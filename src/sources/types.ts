@@ -0,0 +1,30 @@
+import type { FeedFetchResult, FeedValidators } from '../clients/feed-client.js';
+import type { ParsedTweet } from '../clients/telegram-client.js';
+import type { SourceConfig } from '../config/types.js';
+
+/**
+ * Posts read from a fetched feed
+ */
+export interface ParsedFeed {
+  /** Posts sorted oldest first */
+  posts: ParsedTweet[];
+  /** Build date announced by the feed, when it has one */
+  lastBuildDate?: string;
+}
+
+/**
+ * SourceReader - Reads the posts of one type of source (Nitter, generic feed)
+ * Fetching and parsing are separate steps so unchanged feeds can be skipped before parsing
+ */
+export interface SourceReader {
+  /**
+   * Fetch a source's feed
+   * @param cached Validators of the last processed fetch, for a conditional request
+   */
+  fetch(source: SourceConfig, cached?: FeedValidators): Promise<FeedFetchResult>;
+
+  /**
+   * Parse a fetched feed into posts
+   */
+  parse(content: string, source: SourceConfig): ParsedFeed;
+}
@@ -0,0 +1,120 @@
+/**
+ * Field ranges of a node-cron expression (second minute hour day month weekday)
+ */
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 6],
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Give up looking for the next run after this many days (e.g. "0 0 30 2 *")
+ */
+const MAX_SEARCH_DAYS = 366 * 4;
+
+/**
+ * Replace month/weekday names ("Jan", "monday") with their numbers
+ */
+function replaceNames(field: string, names: string[], offset: number): string {
+  return field.replace(/[a-z]+/gi, (name) => {
+    const index = names.indexOf(name.substring(0, 3).toLowerCase());
+    return index === -1 ? name : String(index + offset);
+  });
+}
+
+/**
+ * Expand one cron field into the set of values it matches
+ * Steps follow node-cron: "a-b/n" matches values in a-b divisible by n
+ */
+function expandField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart = '', stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const [from = '', to] = rangePart.split('-');
+      start = parseInt(from, 10);
+      end = to === undefined ? start : parseInt(to, 10);
+    }
+
+    if (isNaN(start) || isNaN(end) || isNaN(step) || step <= 0) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value++) {
+      if (stepPart === undefined || value % step === 0) {
+        values.add(value);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Compute the next time a node-cron expression fires after `from` (server time)
+ * Returns null if it does not fire within the next few years
+ */
+export function getNextCronDate(expression: string, from: Date = new Date()): Date | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+  if (fields.length !== 6) {
+    throw new Error(`Invalid cron expression: ${expression}`);
+  }
+
+  fields[4] = replaceNames(fields[4]!, MONTH_NAMES, 1);
+  fields[5] = replaceNames(fields[5]!, WEEKDAY_NAMES, 0).replace('7', '0');
+
+  const [seconds, minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    expandField(field, FIELD_RANGES[i]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  const candidate = new Date(from.getTime());
+  candidate.setMilliseconds(0);
+  candidate.setSeconds(candidate.getSeconds() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (
+      !months.has(candidate.getMonth() + 1) ||
+      !days.has(candidate.getDate()) ||
+      !weekdays.has(candidate.getDay())
+    ) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0);
+      continue;
+    }
+
+    if (!hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0);
+      continue;
+    }
+
+    if (!minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0);
+      continue;
+    }
+
+    if (!seconds.has(candidate.getSeconds())) {
+      candidate.setSeconds(candidate.getSeconds() + 1);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
@@ -0,0 +1,276 @@
+import { createHash } from 'node:crypto';
+import { XMLParser, type X2jOptions } from 'fast-xml-parser';
+import type { ParsedTweet } from '../clients/telegram-client.js';
+import type { SourceConfig } from '../config/types.js';
+import type { Logger } from './logger.js';
+import { rssParseDuration } from './metrics.js';
+
+/**
+ * Entry of an RSS 2.0 or Atom 1.0 feed
+ */
+export interface FeedEntry {
+  /** guid (RSS) or id (Atom) */
+  id?: string;
+  title: string;
+  link?: string;
+  published?: string;
+  summary?: string;
+  author?: string;
+  imageUrl?: string;
+}
+
+/**
+ * RSS 2.0 or Atom 1.0 feed
+ */
+export interface GenericFeed {
+  entries: FeedEntry[];
+  title?: string;
+  link?: string;
+  imageUrl?: string;
+  /** lastBuildDate (RSS) or updated (Atom) */
+  updated?: string;
+}
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Longest summary kept in a post, in characters
+ */
+const SUMMARY_LIMIT = 500;
+
+/**
+ * FeedParser - Parses generic RSS 2.0 and Atom 1.0 feeds into posts
+ * Post ids are derived from a hash of the entry's guid/id (or link), prefixed
+ * with the source id, so they are stable and never collide with tweet ids
+ */
+export class FeedParser {
+  private parser: XMLParser;
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger.child({ component: 'FeedParser' });
+
+    const parserOptions: X2jOptions = {
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      parseAttributeValue: false,
+      trimValues: true,
+      parseTagValue: false,
+      isArray: (_name, jpath) => ['rss.channel.item', 'feed.entry', 'feed.link', 'feed.entry.link'].includes(String(jpath)),
+    };
+
+    this.parser = new XMLParser(parserOptions);
+  }
+
+  /**
+   * Parse RSS or Atom XML
+   */
+  parse(xmlContent: string): GenericFeed {
+    if (!xmlContent || xmlContent.trim().length === 0) {
+      this.logger.warn('Empty XML content provided');
+      return { entries: [] };
+    }
+
+    const endTimer = rssParseDuration.startTimer();
+    try {
+      const parsed = this.parser.parse(xmlContent) as XmlNode;
+      const rss = this.node(parsed['rss']);
+      const atom = this.node(parsed['feed']);
+
+      if (rss) {
+        return this.parseRss(this.node(rss['channel']) ?? {});
+      }
+      if (atom) {
+        return this.parseAtom(atom);
+      }
+
+      this.logger.warn('Unknown feed format: expected rss or feed root element');
+      return { entries: [] };
+    } catch (err) {
+      this.logger.error({ err }, 'Failed to parse feed XML');
+      throw new Error(`Feed parsing failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      endTimer();
+    }
+  }
+
+  /**
+   * Convert feed entries to posts sorted oldest first
+   * Entries without guid/id/link (no stable id) or date are skipped
+   */
+  toPosts(feed: GenericFeed, source: SourceConfig): ParsedTweet[] {
+    const posts: ParsedTweet[] = [];
+
+    for (const entry of feed.entries) {
+      const key = entry.id ?? entry.link;
+      const publishedAt = entry.published ? new Date(entry.published) : null;
+
+      if (!key || !publishedAt || isNaN(publishedAt.getTime())) {
+        this.logger.debug({ source: source.id, title: entry.title.substring(0, 50) }, 'Skipping entry without id or date');
+        continue;
+      }
+
+      const summary = entry.summary && entry.summary !== entry.title ? this.truncate(entry.summary, SUMMARY_LIMIT) : '';
+
+      posts.push({
+        id: `${source.id}:${createHash('sha256').update(key).digest('hex').substring(0, 16)}`,
+        text: summary ? `${entry.title}\n\n${summary}` : entry.title,
+        link: entry.link ?? feed.link ?? source.url ?? '',
+        publishedAt,
+        source,
+        media: entry.imageUrl ? [{ type: 'photo', url: entry.imageUrl }] : [],
+        author: {
+          name: entry.author ?? feed.title ?? source.label,
+          username: '',
+          avatarUrl: feed.imageUrl,
+          url: feed.link,
+        },
+      });
+    }
+
+    posts.sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+
+    this.logger.debug({ source: source.id, postCount: posts.length }, 'Converted feed entries to posts');
+    return posts;
+  }
+
+  /**
+   * Read an RSS 2.0 channel
+   */
+  private parseRss(channel: XmlNode): GenericFeed {
+    const items = Array.isArray(channel['item']) ? (channel['item'] as unknown[]) : [];
+
+    return {
+      title: this.text(channel['title']),
+      link: this.text(channel['link']),
+      imageUrl: this.text(this.node(channel['image'])?.['url']),
+      updated: this.text(channel['lastBuildDate']),
+      entries: items.flatMap((raw) => {
+        const item = this.node(raw);
+        if (!item) {
+          return [];
+        }
+        const description = this.text(item['description']) ?? this.text(item['content:encoded']);
+        return [{
+          id: this.text(item['guid']),
+          title: this.cleanText(this.text(item['title']) ?? ''),
+          link: this.text(item['link']),
+          published: this.text(item['pubDate']) ?? this.text(item['dc:date']),
+          summary: description ? this.cleanText(description) : undefined,
+          author: this.text(item['dc:creator']) ?? this.text(item['author']),
+          imageUrl: this.findImage(item, description ?? this.text(item['content:encoded'])),
+        }];
+      }),
+    };
+  }
+
+  /**
+   * Read an Atom 1.0 feed
+   */
+  private parseAtom(feed: XmlNode): GenericFeed {
+    const entries = Array.isArray(feed['entry']) ? (feed['entry'] as unknown[]) : [];
+
+    return {
+      title: this.cleanText(this.text(feed['title']) ?? '') || undefined,
+      link: this.atomLink(feed['link']),
+      imageUrl: this.text(feed['logo']) ?? this.text(feed['icon']),
+      updated: this.text(feed['updated']),
+      entries: entries.flatMap((raw) => {
+        const entry = this.node(raw);
+        if (!entry) {
+          return [];
+        }
+        const content = this.text(entry['content']);
+        const summary = this.text(entry['summary']) ?? content;
+        return [{
+          id: this.text(entry['id']),
+          title: this.cleanText(this.text(entry['title']) ?? ''),
+          link: this.atomLink(entry['link']),
+          published: this.text(entry['published']) ?? this.text(entry['updated']),
+          summary: summary ? this.cleanText(summary) : undefined,
+          author: this.text(this.node(entry['author'])?.['name']),
+          imageUrl: this.findImage(entry, content ?? summary),
+        }];
+      }),
+    };
+  }
+
+  /**
+   * Pick the alternate (or first rel-less) link of an Atom element
+   */
+  private atomLink(value: unknown): string | undefined {
+    const links = (Array.isArray(value) ? value : [value]).map((link) => this.node(link)).filter((link): link is XmlNode => link !== null);
+    const alternate = links.find((link) => link['@_rel'] === undefined || link['@_rel'] === 'alternate');
+    return this.text(alternate?.['@_href']);
+  }
+
+  /**
+   * Find an image for an entry: media:thumbnail / media:content, an image enclosure,
+   * then the first <img> of its HTML
+   */
+  private findImage(entry: XmlNode, html?: string): string | undefined {
+    const candidates = [entry['media:thumbnail'], entry['media:content'], entry['enclosure']]
+      .flatMap((value) => (Array.isArray(value) ? value : [value]))
+      .map((value) => this.node(value))
+      .filter((value): value is XmlNode => value !== null);
+
+    for (const candidate of candidates) {
+      const url = this.text(candidate['@_url']);
+      const type = this.text(candidate['@_type']) ?? this.text(candidate['@_medium']) ?? 'image';
+      if (url && type.startsWith('image')) {
+        return url;
+      }
+    }
+
+    const img = html?.match(/<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/i)?.[1];
+    return img && /^https?:\/\//.test(img) ? img.replace(/&amp;/g, '&') : undefined;
+  }
+
+  /**
+   * Read the text of an element (plain value or object with #text)
+   */
+  private text(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+      return value.trim() || undefined;
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    const node = this.node(value);
+    return node ? this.text(node['#text']) : undefined;
+  }
+
+  /**
+   * Narrow a parsed value to an element object
+   */
+  private node(value: unknown): XmlNode | null {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as XmlNode) : null;
+  }
+
+  /**
+   * Turn HTML into plain text: drop tags, decode entities, normalize whitespace
+   */
+  private cleanText(html: string): string {
+    return html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(parseInt(code, 10)))
+      .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCodePoint(parseInt(code, 16)))
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Truncate text to a maximum length
+   */
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+  }
+}
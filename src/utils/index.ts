@@ -1,2 +1,6 @@
 export { createLogger, type Logger } from './logger.js';
-export { RSSParser } from './rss-parser.js';
+export { RSSParser, THREAD_WINDOW_MS } from './rss-parser.js';
+export { FeedParser, type FeedEntry, type GenericFeed } from './feed-parser.js';
+export { TemplateRenderer, TEMPLATE_PLACEHOLDERS, findUnknownPlaceholders, type TemplatePlaceholder } from './template.js';
+export { getNextCronDate } from './cron.js';
+export { metricsRegistry, registerPoolMetrics } from './metrics.js';
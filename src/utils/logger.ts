@@ -5,8 +5,9 @@ export type Logger = PinoLogger;
 
 /**
  * Create a configured pino logger instance
+ * @param fd File descriptor to log to; commands that print results log to stderr (2)
  */
-export function createLogger(config: LogConfig): Logger {
+export function createLogger(config: LogConfig, fd: 1 | 2 = 1): Logger {
   const options: pino.LoggerOptions = {
     level: config.level,
     base: {
@@ -26,11 +27,12 @@ export function createLogger(config: LogConfig): Logger {
           colorize: true,
           translateTime: 'SYS:standard',
           ignore: 'pid,hostname',
+          destination: fd,
         },
       },
     });
   }
 
   // Production: structured JSON logging
-  return pino(options);
+  return pino(options, pino.destination(fd));
 }
@@ -0,0 +1,111 @@
+import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics for the relay pipeline, served on /metrics
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'relay_' });
+
+export const tweetsFetchedTotal = new Counter({
+  name: 'relay_tweets_fetched_total',
+  help: 'Posts read from Nitter and RSS/Atom feeds',
+  labelNames: ['source'] as const,
+  registers: [metricsRegistry],
+});
+
+export const feedUnchangedTotal = new Counter({
+  name: 'relay_feed_unchanged_total',
+  help: 'Feed fetches skipped because nothing changed since the last processed one',
+  labelNames: ['source', 'reason'] as const,
+  registers: [metricsRegistry],
+});
+
+export const tweetsNewTotal = new Counter({
+  name: 'relay_tweets_new_total',
+  help: 'New tweets queued for delivery',
+  labelNames: ['source'] as const,
+  registers: [metricsRegistry],
+});
+
+export const tweetsSentTotal = new Counter({
+  name: 'relay_tweets_sent_total',
+  help: 'Tweets delivered, per destination',
+  labelNames: ['destination'] as const,
+  registers: [metricsRegistry],
+});
+
+export const tweetsFailedTotal = new Counter({
+  name: 'relay_tweets_failed_total',
+  help: 'Failed delivery attempts, per destination',
+  labelNames: ['destination'] as const,
+  registers: [metricsRegistry],
+});
+
+export const nitterFetchDuration = new Histogram({
+  name: 'relay_nitter_fetch_duration_seconds',
+  help: 'Latency of Nitter RSS requests',
+  labelNames: ['instance', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const nitterInstanceUp = new Gauge({
+  name: 'relay_nitter_instance_up',
+  help: 'Whether a Nitter instance is in rotation (0 while its circuit is open)',
+  labelNames: ['instance'] as const,
+  registers: [metricsRegistry],
+});
+
+export const rssParseDuration = new Histogram({
+  name: 'relay_rss_parse_duration_seconds',
+  help: 'Time spent parsing RSS XML',
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25],
+  registers: [metricsRegistry],
+});
+
+export const sendDuration = new Histogram({
+  name: 'relay_send_duration_seconds',
+  help: 'Latency of sends, per destination',
+  labelNames: ['destination', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+let lastSuccessfulCycleAt = Date.now();
+
+/**
+ * Record that a poll cycle completed without source failures
+ */
+export function recordSuccessfulCycle(): void {
+  lastSuccessfulCycleAt = Date.now();
+}
+
+new Gauge({
+  name: 'relay_last_success_age_seconds',
+  help: 'Seconds since the last poll cycle without source failures (since startup before the first one)',
+  registers: [metricsRegistry],
+  collect() {
+    this.set((Date.now() - lastSuccessfulCycleAt) / 1000);
+  },
+});
+
+/**
+ * Expose database pool statistics as gauges
+ */
+export function registerPoolMetrics(getPoolStats: () => { total: number; idle: number; waiting: number }): void {
+  metricsRegistry.removeSingleMetric('relay_db_pool_connections');
+
+  new Gauge({
+    name: 'relay_db_pool_connections',
+    help: 'PostgreSQL pool connections by state',
+    labelNames: ['state'] as const,
+    registers: [metricsRegistry],
+    collect() {
+      const stats = getPoolStats();
+      this.set({ state: 'total' }, stats.total);
+      this.set({ state: 'idle' }, stats.idle);
+      this.set({ state: 'waiting' }, stats.waiting);
+    },
+  });
+}
@@ -1,7 +1,15 @@
 import { XMLParser, type X2jOptions } from 'fast-xml-parser';
 import type { RSSItem, RSSFeed } from '../clients/nitter-client.js';
-import type { ParsedTweet } from '../clients/telegram-client.js';
+import type { ParsedTweet, TweetMedia, TweetAuthor, QuotedTweet } from '../clients/telegram-client.js';
+import type { SourceConfig, ContentPolicy } from '../config/types.js';
 import type { Logger } from './logger.js';
+import { rssParseDuration } from './metrics.js';
+
+/**
+ * How long after its parent a thread continuation may be posted
+ * Self-threads are posted in one go; an older own tweet is taken for an unrelated post
+ */
+export const THREAD_WINDOW_MS = 15 * 60 * 1000;
 
 /**
  * RSS XML structure from Nitter
@@ -12,6 +20,7 @@ interface RSSXml {
       title?: string;
       description?: string;
       lastBuildDate?: string;
+      image?: { url?: string };
       item?: RSSItemXml | RSSItemXml[];
     };
   };
@@ -23,6 +32,7 @@ interface RSSItemXml {
   pubDate?: string;
   description?: string;
   guid?: string | { '#text'?: string };
+  'dc:creator'?: string;
 }
 
 /**
@@ -57,6 +67,7 @@ export class RSSParser {
       return { items: [] };
     }
 
+    const endTimer = rssParseDuration.startTimer();
     try {
       const parsed = this.parser.parse(xmlContent) as RSSXml;
       
@@ -83,10 +94,13 @@ export class RSSParser {
         title: channel.title,
         description: channel.description,
         lastBuildDate: channel.lastBuildDate,
+        imageUrl: channel.image?.url,
       };
     } catch (err) {
       this.logger.error({ err }, 'Failed to parse RSS XML');
       throw new Error(`RSS parsing failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      endTimer();
     }
   }
 
@@ -116,17 +130,20 @@ export class RSSParser {
       pubDate,
       description: item.description,
       guid,
+      creator: item['dc:creator'],
     };
   }
 
   /**
    * Convert RSS items to ParsedTweets sorted oldest first
+   * Thread continuations are linked to the account's own tweet right before them (see THREAD_WINDOW_MS)
    */
-  toTweets(feed: RSSFeed): ParsedTweet[] {
+  toTweets(feed: RSSFeed, source: SourceConfig): ParsedTweet[] {
     const tweets: ParsedTweet[] = [];
+    const feedAuthor = this.extractFeedAuthor(feed, source);
 
     for (const item of feed.items) {
-      const tweet = this.rssItemToTweet(item);
+      const tweet = this.rssItemToTweet(item, source, feedAuthor);
       if (tweet) {
         tweets.push(tweet);
       }
@@ -135,14 +152,27 @@ export class RSSParser {
     // Sort by published date, oldest first (for chronological processing)
     tweets.sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
 
-    this.logger.debug({ tweetCount: tweets.length }, 'Converted RSS items to tweets');
+    // The feed does not name the parent of a reply; a self-thread is posted in one go, so the
+    // parent is the account's newest earlier own tweet (the root or a previous continuation),
+    // skipping retweets and replies to other accounts, if it was posted shortly before
+    tweets.forEach((tweet, index) => {
+      if (!tweet.isThreadContinuation) {
+        return;
+      }
+      const parent = tweets.slice(0, index).reverse().find((candidate) => !candidate.retweetOf && !candidate.replyTo);
+      if (parent && tweet.publishedAt.getTime() - parent.publishedAt.getTime() <= THREAD_WINDOW_MS) {
+        tweet.inReplyToId = parent.id;
+      }
+    });
+
+    this.logger.debug({ source: source.id, tweetCount: tweets.length }, 'Converted RSS items to tweets');
     return tweets;
   }
 
   /**
    * Convert a single RSS item to ParsedTweet
    */
-  private rssItemToTweet(item: RSSItem): ParsedTweet | null {
+  private rssItemToTweet(item: RSSItem, source: SourceConfig, feedAuthor: TweetAuthor): ParsedTweet | null {
     const tweetId = this.extractTweetId(item.link);
     if (!tweetId) {
       this.logger.debug({ link: item.link }, 'Could not extract tweet ID from link');
@@ -157,29 +187,188 @@ export class RSSParser {
 
     // Use title as tweet text (Nitter puts tweet content in title)
     // Clean up the text
-    const text = this.cleanTweetText(item.title);
-
-    // Skip retweets (start with "RT @")
-    if (this.isRetweet(text)) {
-      this.logger.debug({ tweetId, text: text.substring(0, 50) }, 'Skipping retweet');
-      return null;
+    let text = this.cleanTweetText(item.title);
+
+    // Retweets: relayed with attribution when the source's retweet policy allows the original author
+    let retweetOf: string | undefined;
+    const retweet = this.parseRetweet(text, item.creator);
+    if (retweet) {
+      if (!retweet.username) {
+        this.logger.warn({ tweetId, link: item.link }, 'Skipping retweet without dc:creator (original author unknown)');
+        return null;
+      }
+      if (!this.isAllowed(source.policies.retweets, retweet.username, source)) {
+        this.logger.debug({ tweetId, text: text.substring(0, 50) }, 'Skipping retweet');
+        return null;
+      }
+      retweetOf = retweet.username;
+      text = retweet.text;
     }
 
-    // Skip replies (start with "@" or "R @")
-    if (this.isReply(text)) {
-      this.logger.debug({ tweetId, text: text.substring(0, 50) }, 'Skipping reply');
-      return null;
+    // Replies to the account itself are threads and always kept; replies to others follow the reply policy
+    let replyTo: string | undefined;
+    const reply = retweet ? null : this.parseReply(text);
+    const isThreadContinuation = reply !== null && this.isSameAccount(reply.username, source, feedAuthor);
+    if (reply && !isThreadContinuation) {
+      if (!this.isAllowed(source.policies.replies, reply.username, source)) {
+        this.logger.debug({ tweetId, text: text.substring(0, 50) }, 'Skipping reply');
+        return null;
+      }
+      replyTo = reply.username;
+    }
+    if (reply) {
+      text = reply.text;
     }
 
     // Convert Nitter localhost link to proper X.com link
     const twitterLink = this.convertToTwitterLink(item.link);
 
+    // Quotes, images and videos only live in the description HTML
+    const { quote, description } = item.description
+      ? this.extractQuote(item.description, tweetId)
+      : { quote: undefined, description: undefined };
+    if (quote && !this.isAllowed(source.policies.quotes, quote.username, source)) {
+      this.logger.debug({ tweetId, quotedUsername: quote.username }, 'Skipping quote tweet');
+      return null;
+    }
+    const media = description ? this.extractMedia(description) : [];
+
     return {
       id: tweetId,
       text,
       link: twitterLink,
       publishedAt,
+      source,
+      media,
+      author: feedAuthor,
+      ...(isThreadContinuation ? { isThreadContinuation } : {}),
+      ...(retweetOf ? { retweetOf } : {}),
+      ...(replyTo ? { replyTo } : {}),
+      ...(quote ? { quote } : {}),
+    };
+  }
+
+  /**
+   * Derive the account name and avatar from the feed channel
+   * Nitter titles the channel "Display Name / @username" and sets the avatar as channel image
+   */
+  private extractFeedAuthor(feed: RSSFeed, source: SourceConfig): TweetAuthor {
+    const titleMatch = feed.title?.match(/^(.*?)\s*\/\s*@(\w+)\s*$/);
+    const avatarUrl = feed.imageUrl ? this.toOriginalMediaUrl(feed.imageUrl) ?? undefined : undefined;
+
+    return {
+      name: titleMatch?.[1] ? this.cleanTweetText(titleMatch[1]) : source.label,
+      username: titleMatch?.[2] ?? source.username,
+      avatarUrl,
+    };
+  }
+
+  /**
+   * Extract media from Nitter's description HTML
+   * Photos are <img> tags, gifs are <video> tags with an mp4 <source>.
+   * Nitter's RSS only exposes a thumbnail for native videos, so those are
+   * relayed as a photo of the thumbnail; the tweet link still plays the video.
+   */
+  private extractMedia(description: string): TweetMedia[] {
+    const media: TweetMedia[] = [];
+    const seen = new Set<string>();
+
+    const add = (item: TweetMedia): void => {
+      if (!seen.has(item.url)) {
+        seen.add(item.url);
+        media.push(item);
+      }
     };
+
+    // <video poster="..."><source src="..." type="video/mp4"></video>
+    const videoPattern = /<video\b([^>]*)>([\s\S]*?)<\/video>/gi;
+    for (const match of description.matchAll(videoPattern)) {
+      const attributes = match[1] ?? '';
+      const sourceSrc = this.getAttribute(match[2] ?? '', 'src') ?? this.getAttribute(attributes, 'src');
+      const url = sourceSrc ? this.toOriginalMediaUrl(sourceSrc) : null;
+      if (!url) {
+        continue;
+      }
+
+      const poster = this.getAttribute(attributes, 'poster');
+      add({
+        type: url.includes('/tweet_video/') ? 'gif' : 'video',
+        url,
+        thumbnailUrl: poster ? this.toOriginalMediaUrl(poster) ?? undefined : undefined,
+      });
+    }
+
+    // Drop video elements so their posters are not picked up as photos
+    const withoutVideos = description.replace(videoPattern, '');
+
+    for (const match of withoutVideos.matchAll(/<img\b([^>]*)>/gi)) {
+      const attributes = match[1] ?? '';
+      const src = this.getAttribute(attributes, 'src');
+      const url = src ? this.toOriginalMediaUrl(src) : null;
+      if (!url) {
+        continue;
+      }
+
+      const altText = this.getAttribute(attributes, 'alt');
+      add({
+        type: 'photo',
+        url,
+        altText: altText ? this.cleanTweetText(altText) : undefined,
+      });
+    }
+
+    return media;
+  }
+
+  /**
+   * Read an attribute value from an HTML tag's attribute string
+   */
+  private getAttribute(attributes: string, name: string): string | null {
+    const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+    if (!match) {
+      return null;
+    }
+    return (match[1] ?? match[2] ?? '').replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Map a Nitter /pic/ proxy URL back to the original Twitter media URL
+   * Examples:
+   *   http://localhost:8080/pic/media%2FGabc.jpg           -> https://pbs.twimg.com/media/Gabc.jpg
+   *   http://localhost:8080/pic/orig/media%2FGabc.jpg      -> https://pbs.twimg.com/media/Gabc.jpg
+   *   http://localhost:8080/pic/video.twimg.com%2Ftweet_video%2Fx.mp4 -> https://video.twimg.com/tweet_video/x.mp4
+   *   http://localhost:8080/pic/enc/<base64>               -> decoded the same way (base64Media = true)
+   */
+  private toOriginalMediaUrl(src: string): string | null {
+    const picIndex = src.indexOf('/pic/');
+    if (picIndex === -1) {
+      // Already a direct URL (e.g. Nitter configured without media proxying)
+      return /^https?:\/\//.test(src) ? src : null;
+    }
+
+    let path = src.substring(picIndex + '/pic/'.length);
+
+    try {
+      if (path.startsWith('enc/')) {
+        path = Buffer.from(decodeURIComponent(path.substring('enc/'.length)), 'base64url').toString('utf8');
+      } else {
+        path = decodeURIComponent(path);
+      }
+    } catch {
+      this.logger.debug({ src }, 'Could not decode Nitter media URL');
+      return null;
+    }
+
+    path = path
+      .replace(/^orig\//, '')
+      .replace(/^https?:\/\//, '')
+      .replace(/^\/+/, '');
+
+    if (path.startsWith('video.twimg.com/') || path.startsWith('pbs.twimg.com/')) {
+      return `https://${path}`;
+    }
+
+    return `https://pbs.twimg.com/${path}`;
   }
 
   /**
@@ -210,20 +399,105 @@ export class RSSParser {
   }
 
   /**
-   * Check if text is a retweet
+   * Parse a retweet: Nitter titles retweets "RT by @retweeter: text" with the original
+   * author as dc:creator; older formats use "RT @author: text"
+   * Returns the original author (undefined when the feed does not name it) and the text without the prefix
+   */
+  private parseRetweet(text: string, creator?: string): { username?: string; text: string } | null {
+    const trimmed = text.trimStart();
+
+    const retweetBy = trimmed.match(/^RT by @\w+:\s*/);
+    if (retweetBy) {
+      const username = creator?.trim().replace(/^@/, '');
+      return { username: username || undefined, text: trimmed.substring(retweetBy[0].length) };
+    }
+
+    const classic = trimmed.match(/^RT @(\w+):?\s*/);
+    if (classic) {
+      return { username: classic[1]!, text: trimmed.substring(classic[0].length) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract the quoted tweet from Nitter's description HTML
+   * Recent Nitter versions render the quote as a <blockquote> with its author, text and link;
+   * older ones only add a paragraph linking to it. The quote is removed from the returned
+   * description so its media is not taken for the tweet's own.
+   */
+  private extractQuote(description: string, tweetId: string): { quote?: QuotedTweet; description: string } {
+    const statusLink = /<a\b[^>]*href\s*=\s*"([^"]*\/(\w+)\/status\/(\d+)[^"]*)"[^>]*>/gi;
+
+    for (const match of description.matchAll(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi)) {
+      const content = match[1] ?? '';
+      const link = [...content.matchAll(statusLink)].find((linkMatch) => linkMatch[3] !== tweetId);
+      if (!link) {
+        continue;
+      }
+
+      const text = content
+        .replace(/<b\b[^>]*>[\s\S]*?<\/b>/i, '')
+        .replace(/<footer\b[^>]*>[\s\S]*?<\/footer>/gi, '')
+        .replace(/<br\s*\/?>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ');
+
+      return {
+        quote: { username: link[2]!, text: this.cleanTweetText(text), link: this.convertToTwitterLink(link[1]!) },
+        description: description.replace(match[0], ''),
+      };
+    }
+
+    for (const match of description.matchAll(/<p>\s*(<a\b[^>]*>)[^<]*<\/a>\s*<\/p>/gi)) {
+      const link = [...(match[1] ?? '').matchAll(statusLink)][0];
+      if (!link || link[3] === tweetId) {
+        continue;
+      }
+
+      return {
+        quote: { username: link[2]!, text: '', link: this.convertToTwitterLink(link[1]!) },
+        description: description.replace(match[0], ''),
+      };
+    }
+
+    return { description };
+  }
+
+  /**
+   * Check whether a content policy lets a retweet, quote or reply of a user through
    */
-  private isRetweet(text: string): boolean {
-    // Retweets typically start with "RT @username:"
-    return text.trimStart().startsWith('RT @');
+  private isAllowed(policy: ContentPolicy, username: string, source: SourceConfig): boolean {
+    return policy === 'relay'
+      || (policy === 'allowlist' && source.policies.allowlist.includes(username.toLowerCase()));
   }
 
   /**
-   * Check if text is a reply
+   * Parse a reply: Nitter titles replies "R to @username: text"; older formats
+   * use "R @username: text" or start with the mention itself
+   * Returns the replied-to username and the text without Nitter's prefix
    */
-  private isReply(text: string): boolean {
+  private parseReply(text: string): { username: string; text: string } | null {
     const trimmed = text.trimStart();
-    // Replies start with @username or "R @" (Nitter format)
-    return trimmed.startsWith('@') || trimmed.startsWith('R @');
+
+    const prefixed = trimmed.match(/^R (?:to )?@(\w+):?\s*/);
+    if (prefixed) {
+      return { username: prefixed[1]!, text: trimmed.substring(prefixed[0].length) };
+    }
+
+    const mention = trimmed.match(/^@(\w+)/);
+    if (mention) {
+      return { username: mention[1]!, text: trimmed };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a username is the source account
+   */
+  private isSameAccount(username: string, source: SourceConfig, feedAuthor: TweetAuthor): boolean {
+    const name = username.toLowerCase();
+    return name === source.username.toLowerCase() || name === feedAuthor.username.toLowerCase();
   }
 
   /**
@@ -0,0 +1,129 @@
+import type { ParsedTweet } from '../clients/telegram-client.js';
+import type { TemplateConfig } from '../config/types.js';
+
+/**
+ * Placeholders available in message templates
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  'text',
+  'link',
+  'author',
+  'username',
+  'date',
+  'mediaCount',
+  'source',
+  'site',
+  'header',
+  'context',
+  'quote',
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Return the unknown placeholders used in a template (empty if valid)
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1] ?? '';
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      unknown.add(name);
+    }
+  }
+  return [...unknown];
+}
+
+/**
+ * TemplateRenderer - Renders message templates for a tweet
+ *
+ * Templates contain destination markup (Telegram HTML, Discord markdown) plus
+ * {placeholders}. Placeholder values are escaped with the destination's escape
+ * function; the template itself is trusted. A line whose placeholders all
+ * render empty (e.g. "<b>{header}</b>" for a source without header) is dropped.
+ */
+export class TemplateRenderer {
+  private dateFormat: Intl.DateTimeFormat;
+  private timezone: string;
+
+  constructor(config: TemplateConfig) {
+    this.dateFormat = new Intl.DateTimeFormat(config.locale, {
+      timeZone: config.timezone,
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+    this.timezone = config.timezone;
+  }
+
+  /**
+   * Render a template for a tweet
+   * @param escape Escapes a placeholder value for the destination's markup
+   */
+  render(
+    template: string,
+    tweet: ParsedTweet,
+    escape: (value: string, placeholder: TemplatePlaceholder) => string
+  ): string {
+    const values = this.getValues(tweet);
+
+    const lines = template.split('\n').flatMap((line) => {
+      let placeholderCount = 0;
+      let emptyCount = 0;
+
+      const rendered = line.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+        if (!(name in values)) {
+          return match;
+        }
+        placeholderCount++;
+
+        const placeholder = name as TemplatePlaceholder;
+        const value = values[placeholder];
+        if (value === '') {
+          emptyCount++;
+          return '';
+        }
+        return escape(value, placeholder);
+      });
+
+      return placeholderCount > 0 && placeholderCount === emptyCount ? [] : [rendered];
+    });
+
+    return lines.join('\n').trim();
+  }
+
+  /**
+   * Get the raw (unescaped) placeholder values for a tweet
+   */
+  private getValues(tweet: ParsedTweet): Record<TemplatePlaceholder, string> {
+    return {
+      text: tweet.text,
+      link: tweet.link,
+      author: tweet.author?.name ?? tweet.source.label,
+      username: tweet.author?.username ?? tweet.source.username,
+      date: `${this.dateFormat.format(tweet.publishedAt)} (${this.timezone})`,
+      mediaCount: String(tweet.media.length),
+      source: tweet.source.label,
+      // Where the link leads: X for X sources, the feed itself otherwise
+      site: tweet.source.type === 'feed' ? tweet.source.label : '𝕏',
+      // Thread continuations are posted as replies; the header is only shown on the first tweet
+      header: tweet.isThreadContinuation ? '' : tweet.source.header ?? '',
+      context: this.getContext(tweet),
+      quote: tweet.quote ? `@${tweet.quote.username}${tweet.quote.text ? `: ${tweet.quote.text}` : ` - ${tweet.quote.link}`}` : '',
+    };
+  }
+
+  /**
+   * Attribution line for retweets and replies to other accounts
+   */
+  private getContext(tweet: ParsedTweet): string {
+    if (tweet.retweetOf) {
+      return `🔁 reposted @${tweet.retweetOf}`;
+    }
+    if (tweet.replyTo) {
+      return `↩️ replying to @${tweet.replyTo}`;
+    }
+    return '';
+  }
+}
@@ -0,0 +1,276 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import pino from 'pino';
+import { BlueskyClient } from '../src/clients/bluesky-client.js';
+import type { ParsedTweet } from '../src/clients/telegram-client.js';
+import type { SourceConfig } from '../src/config/types.js';
+
+const DID = 'did:plc:relaytest';
+const TID_PATTERN = /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/;
+
+interface StoredRecord {
+  rkey: string;
+  value: {
+    text: string;
+    facets?: { index: { byteStart: number; byteEnd: number }; features: Record<string, string>[] }[];
+    reply?: { root: { uri: string }; parent: { uri: string } };
+    embed?: { $type: string };
+  };
+}
+
+/**
+ * Minimal PDS: sessions, records kept in memory, and injectable createRecord failures
+ */
+class StubPds {
+  records = new Map<string, StoredRecord>();
+  createCalls = 0;
+  /** createRecord calls (1-based) that answer with a 500 */
+  failCreateAt = new Set<number>();
+  private server: Server = createServer((req, res) => {
+    this.handle(req, res).catch(() => this.json(res, 500, { error: 'InternalServerError' }));
+  });
+  private generated = 0;
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.records.clear();
+    this.createCalls = 0;
+    this.failCreateAt.clear();
+  }
+
+  /** Records in creation order */
+  posts(): StoredRecord[] {
+    return [...this.records.values()];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const body = await this.readBody(req);
+
+    switch (url.pathname) {
+      case '/xrpc/com.atproto.server.createSession':
+        return this.json(res, 200, { did: DID, accessJwt: 'access', refreshJwt: 'refresh' });
+
+      case '/xrpc/com.atproto.server.getSession':
+        return this.json(res, 200, { did: DID });
+
+      case '/xrpc/com.atproto.repo.createRecord': {
+        this.createCalls++;
+        if (this.failCreateAt.has(this.createCalls)) {
+          return this.json(res, 500, { error: 'InternalServerError', message: 'injected failure' });
+        }
+        const rkey: string = body.rkey ?? `generated${++this.generated}`;
+        if (this.records.has(rkey)) {
+          return this.json(res, 400, { error: 'InvalidRequest', message: 'Record already exists' });
+        }
+        this.records.set(rkey, { rkey, value: body.record });
+        return this.json(res, 200, { uri: this.uri(rkey), cid: `cid-${rkey}` });
+      }
+
+      case '/xrpc/com.atproto.repo.getRecord': {
+        const rkey = url.searchParams.get('rkey') ?? '';
+        const record = this.records.get(rkey);
+        if (!record) {
+          return this.json(res, 400, { error: 'RecordNotFound', message: `Could not locate record: ${rkey}` });
+        }
+        return this.json(res, 200, { uri: this.uri(rkey), cid: `cid-${rkey}`, value: record.value });
+      }
+
+      default:
+        return this.json(res, 404, { error: 'MethodNotImplemented' });
+    }
+  }
+
+  private uri(rkey: string): string {
+    return `at://${DID}/app.bsky.feed.post/${rkey}`;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Record<string, any>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    return raw ? JSON.parse(raw) : {};
+  }
+
+  private json(res: ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+}
+
+const xSource: SourceConfig = {
+  id: 'bitcoinlightapp',
+  type: 'nitter',
+  username: 'BitcoinLightApp',
+  label: 'Bitcoin Light',
+  policies: { retweets: 'relay', quotes: 'relay', replies: 'skip', allowlist: [] },
+  bootstrap: { mode: 'none' },
+};
+
+const feedSource: SourceConfig = { ...xSource, id: 'blog', type: 'feed', username: '', label: 'Blog' };
+
+function makeTweet(text: string, overrides: Partial<ParsedTweet> = {}): ParsedTweet {
+  return {
+    id: '1800000000000000001',
+    text,
+    link: 'https://x.com/BitcoinLightApp/status/1800000000000000001',
+    publishedAt: new Date('2024-06-01T12:00:00Z'),
+    source: xSource,
+    media: [],
+    author: { name: 'Bitcoin Light', username: 'BitcoinLightApp' },
+    ...overrides,
+  };
+}
+
+function graphemes(text: string): string[] {
+  return [...new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)].map((segment) => segment.segment);
+}
+
+function facetText(text: string, index: { byteStart: number; byteEnd: number }): string {
+  return Buffer.from(text, 'utf8').subarray(index.byteStart, index.byteEnd).toString('utf8');
+}
+
+describe('BlueskyClient', () => {
+  const pds = new StubPds();
+  let client: BlueskyClient;
+
+  before(async () => {
+    const service = await pds.start();
+    client = new BlueskyClient(
+      { service, identifier: 'relay.test', appPassword: 'app-password', template: '{text}' },
+      { timezone: 'UTC', locale: 'en-US' },
+      pino({ level: 'silent' })
+    );
+  });
+
+  after(async () => {
+    await client.close();
+    await pds.stop();
+  });
+
+  beforeEach(() => pds.reset());
+
+  it('posts a short tweet as a single post with a link card', async () => {
+    const result = await client.send(makeTweet('gm'), undefined, '1');
+
+    assert.equal(result.success, true);
+    const [post] = pds.posts();
+    assert.equal(pds.posts().length, 1);
+    assert.equal(result.messageId, `at://${DID}/app.bsky.feed.post/${post!.rkey}`);
+    assert.equal(post!.value.text, 'gm');
+    assert.equal(post!.value.embed?.$type, 'app.bsky.embed.external');
+    assert.match(post!.rkey, TID_PATTERN);
+  });
+
+  it('annotates links, hashtags and X mentions at UTF-8 byte offsets', async () => {
+    const text = '⚡️ Lightning by @satoshi_n: https://example.com/a. #Bitcoin #2024';
+    await client.send(makeTweet(text), undefined, '1');
+
+    const facets = pds.posts()[0]!.value.facets ?? [];
+    const found = facets.map((facet) => [facetText(text, facet.index), facet.features[0]]);
+
+    assert.deepEqual(found, [
+      ['https://example.com/a', { $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/a' }],
+      ['@satoshi_n', { $type: 'app.bsky.richtext.facet#link', uri: 'https://x.com/satoshi_n' }],
+      ['#Bitcoin', { $type: 'app.bsky.richtext.facet#tag', tag: 'Bitcoin' }],
+    ]);
+  });
+
+  it('does not treat an @ inside a URL or an e-mail address as a mention', async () => {
+    const text = 'see https://mastodon.social/@someone or mail me@example.com';
+    await client.send(makeTweet(text), undefined, '1');
+
+    const features = (pds.posts()[0]!.value.facets ?? []).map((facet) => facet.features[0]);
+    assert.deepEqual(features, [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://mastodon.social/@someone' }]);
+  });
+
+  it('leaves mentions of feed posts as plain text', async () => {
+    await client.send(makeTweet('thanks @someone', { source: feedSource, author: { name: 'Blog', username: '' } }), undefined, '1');
+
+    assert.equal(pds.posts()[0]!.value.facets, undefined);
+  });
+
+  it('splits long texts into a reply chain of at most 300 graphemes', async () => {
+    // Family emoji: one grapheme, eight UTF-16 code units
+    const words = Array.from({ length: 200 }, (_, i) => `👨‍👩‍👧${i}`);
+    const text = words.join(' ');
+    assert.ok(graphemes(text).length > 600);
+
+    const result = await client.send(makeTweet(text), undefined, '1');
+    assert.equal(result.success, true);
+
+    const posts = pds.posts();
+    assert.ok(posts.length >= 3);
+    for (const post of posts) {
+      assert.ok(graphemes(post.value.text).length <= 300);
+    }
+    assert.deepEqual(posts.flatMap((post) => post.value.text.split(' ')), words);
+
+    const root = `at://${DID}/app.bsky.feed.post/${posts[0]!.rkey}`;
+    assert.equal(posts[0]!.value.reply, undefined);
+    for (const [index, post] of posts.entries()) {
+      if (index > 0) {
+        assert.equal(post.value.reply?.root.uri, root);
+        assert.equal(post.value.reply?.parent.uri, `at://${DID}/app.bsky.feed.post/${posts[index - 1]!.rkey}`);
+      }
+    }
+    assert.equal(posts.at(-1)!.value.embed?.$type, 'app.bsky.embed.external');
+    assert.deepEqual(result.messageId?.split(','), posts.map((post) => `at://${DID}/app.bsky.feed.post/${post.rkey}`));
+  });
+
+  it('resumes a partly posted chain on retry instead of posting the root again', async () => {
+    const tweet = makeTweet(Array.from({ length: 120 }, (_, i) => `word${i}`).join(' '));
+    pds.failCreateAt.add(2);
+
+    const failed = await client.send(tweet, undefined, '42');
+    assert.equal(failed.success, false);
+    assert.equal(pds.posts().length, 1);
+
+    const retried = await client.send(tweet, undefined, '42');
+    assert.equal(retried.success, true);
+
+    const posts = pds.posts();
+    const uris = retried.messageId!.split(',');
+    assert.equal(uris.length, posts.length);
+    assert.equal(uris[0], `at://${DID}/app.bsky.feed.post/${posts[0]!.rkey}`);
+    assert.equal(new Set(posts.map((post) => post.value.text)).size, posts.length);
+  });
+
+  it('posts a new chain for a resend (a new delivery id)', async () => {
+    const tweet = makeTweet('gm');
+
+    const first = await client.send(tweet, undefined, '42');
+    const again = await client.send(tweet, undefined, '42');
+    const resent = await client.send(tweet, undefined, '43');
+
+    assert.equal(again.messageId, first.messageId);
+    assert.notEqual(resent.messageId, first.messageId);
+    assert.equal(pds.posts().length, 2);
+  });
+
+  it('continues a relayed thread under the root of its parent', async () => {
+    const parent = await client.send(makeTweet('1/ first'), undefined, '1');
+    const child = await client.send(
+      makeTweet('2/ second', { id: '1800000000000000002', isThreadContinuation: true }),
+      parent.messageId,
+      '2'
+    );
+
+    assert.equal(child.success, true);
+    const reply = pds.posts()[1]!.value.reply;
+    assert.equal(reply?.root.uri, parent.messageId);
+    assert.equal(reply?.parent.uri, parent.messageId);
+  });
+});